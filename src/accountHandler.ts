@@ -1,9 +1,10 @@
 // accountHandler.ts
 import {
     AccountMessageType,
+    ChannelBatchDataMessage,
     ChannelDataAssetPosition,
+    ChannelDataContents,
     ChannelDataFill,
-    ChannelDataMessage,
     ChannelDataOrder,
     ChannelDataPerpetualPosition,
     defaultCollateralProperties,
@@ -26,12 +27,15 @@ import {
     PositionSide,
     Resolutions,
     SubscriptionTypes,
-    Symbol,
+    DefaultSymbol,
     CollateralSymbol,
+    MainnetProfile,
+    NetworkProfile,
     oneHour
 } from "./constants";
 
 import {Clients} from "./dydxClient";
+import {signedPositionSize} from "./utils";
 import {IndexerClient, OrderSide, OrderStatus, PositionStatus, TickerType} from "@dydxprotocol/v4-client-js";
 
 /**
@@ -62,7 +66,7 @@ export class AccountHandler {
      * @param longTermFill - Order fill flag.
      */
     constructor(
-        symbol: string = Symbol,
+        symbol: string = DefaultSymbol,
         asset: string = CollateralSymbol,
         openOrders: OpenOrders = defaultOpenOrderProperties(),
         filledOrders: FilledOrders = defaultFilledOrderProperties(),
@@ -83,8 +87,10 @@ export class AccountHandler {
 
     /**
      * Initializes indexer client for fetching account data.
+     * @param network - The network profile to fetch data from (mainnet by default).
      */
-    public async initializeClient(): Promise<void> {
+    public async initializeClient(network: NetworkProfile = MainnetProfile): Promise<void> {
+        this.clients = new Clients(network);
         this.indexerClient = this.clients.createIndexerClient()
     }
 
@@ -147,7 +153,13 @@ export class AccountHandler {
 
             case SubscriptionTypes.ChannelData:
                 this.longTermFill = [];
-                await this.updateAccount(obj);
+                await this.updateAccount(obj.contents);
+                this.assignPosition();
+                break;
+
+            case SubscriptionTypes.ChannelBatchData:
+                this.longTermFill = [];
+                await this.updateAccountBatch(obj);
                 this.assignPosition();
                 break;
 
@@ -162,38 +174,50 @@ export class AccountHandler {
      * @param obj - The initial account message containing order, position, and collateral data.
      */
     private async initializeAccount(obj: InitAccountMessage): Promise<void> {
+        // A snapshot replaces any existing state (e.g. after a resync). The new state is built aside and only
+        // swapped in once the REST requests succeeded, so readers never see an empty account in between
+        const openOrders = defaultOpenOrderProperties();
+        const filledOrders = defaultFilledOrderProperties();
+        const perpetualPosition = defaultPositionProperties();
+
         // Initialize open orders
         const initOrders = obj.contents.orders
-        this.initializeOpenOrders(initOrders)
+        this.initializeOpenOrders(initOrders, openOrders)
 
         // Initialize position
         const initPosition = obj.contents.subaccount.openPerpetualPositions
-        await this.initializePosition(initPosition)
+        await this.initializePosition(initPosition, perpetualPosition)
 
         // Initialize fills
-        await this.initializeFills(obj.id)
+        await this.initializeFills(obj.id, perpetualPosition, filledOrders)
 
         // Initialize collateral
         const assetPosition = obj.contents.subaccount.assetPositions
-        this.assignCollateral(assetPosition)
+        const collateral = this.assignCollateral(assetPosition)
+
+        this.openOrders = openOrders;
+        this.filledOrders = filledOrders;
+        this.perpetualPosition = perpetualPosition;
+        this.assetPosition = collateral;
     }
 
     /**
      * Initializes open orders from account data.
      * @param initOrders - Initial order data from the account message.
+     * @param openOrders - The open orders to fill.
      */
-    private initializeOpenOrders(initOrders: InitAccountMessageOrders | []): void {
+    private initializeOpenOrders(initOrders: InitAccountMessageOrders | [], openOrders: OpenOrders): void {
         if (initOrders.length === 0) return;
 
         for (const order of initOrders) {
             const key = order.clientId
 
             if (order.side === OrderSide.BUY && (order.status === OrderStatus.OPEN || order.status === OrderStatus.BEST_EFFORT_OPENED)) {
-                this.openOrders.bids[key] =
+                openOrders.bids[key] =
                     this.generateOrderDict(order)
 
             } else if (order.side === OrderSide.SELL && (order.status === OrderStatus.OPEN || order.status === OrderStatus.BEST_EFFORT_OPENED)) {
-                this.openOrders.asks[key] =
+                openOrders.asks[key] =
                     this.generateOrderDict(order)
             }
         }
@@ -227,27 +251,29 @@ export class AccountHandler {
     /**
      * Initializes position data from account data.
      * @param initPosition - Initial position data from the account message.
+     * @param perpetualPosition - The position to fill.
      */
-    private async initializePosition(initPosition: InitAccountMessageOpenPerpPositions): Promise<void> {
+    private async initializePosition(initPosition: InitAccountMessageOpenPerpPositions, perpetualPosition: OpenPosition): Promise<void> {
         if (this.isObjectEmpty(initPosition)) return;
 
         const price = await this.getPrice();
         const position = initPosition[this.symbol];
 
         if (position.status === PositionStatus.OPEN) {
-            this.assignNonNullPositionData(position, price);
-            this.perpetualPosition.unrealizedPnl = parseFloat(position.unrealizedPnl);
-            this.perpetualPosition.realizedPnl = parseFloat(position.realizedPnl);
-            this.handleNullExitPrice(position);
+            this.assignNonNullPositionData(position, price, perpetualPosition);
+            perpetualPosition.unrealizedPnl = parseFloat(position.unrealizedPnl);
+            perpetualPosition.realizedPnl = parseFloat(position.realizedPnl);
+            this.handleNullExitPrice(position, perpetualPosition);
         }
     }
 
     /**
      * Assigns the average exit price for a perpetual position.
      * @param position - The position data containing the exit price.
+     * @param perpetualPosition - The position to assign to (the current position by default).
      */
-    private handleNullExitPrice(position: InitPerpetualPosition | ChannelDataPerpetualPosition): void {
-        this.perpetualPosition.averageExit = position.exitPrice != null ?
+    private handleNullExitPrice(position: InitPerpetualPosition | ChannelDataPerpetualPosition, perpetualPosition: OpenPosition = this.perpetualPosition): void {
+        perpetualPosition.averageExit = position.exitPrice != null ?
             parseFloat(position.exitPrice) : 0
     }
 
@@ -255,25 +281,29 @@ export class AccountHandler {
      * Assigns non-null data to a position.
      * @param position - The position data.
      * @param price - The price associated with the position.
+     * @param perpetualPosition - The position to assign to (the current position by default).
      */
-    private assignNonNullPositionData(position: InitPerpetualPosition | ChannelDataPerpetualPosition, price: number): void {
-        this.perpetualPosition.symbol = position.market;
-        this.perpetualPosition.direction = position.side;
-        this.perpetualPosition.averageEntry = parseFloat(position.entryPrice)
-        this.perpetualPosition.positionSizeBase = Math.abs(parseFloat(position.size))
-        this.perpetualPosition.positionSizeUsd = Math.abs(parseFloat(position.size) * price)
-        this.perpetualPosition.sumOpen = parseFloat(position.sumOpen) * price
-        this.perpetualPosition.sumExit = parseFloat(position.sumClose)
+    private assignNonNullPositionData(position: InitPerpetualPosition | ChannelDataPerpetualPosition, price: number, perpetualPosition: OpenPosition = this.perpetualPosition): void {
+        perpetualPosition.symbol = position.market;
+        perpetualPosition.direction = position.side;
+        perpetualPosition.averageEntry = parseFloat(position.entryPrice)
+        perpetualPosition.positionSizeBase = Math.abs(parseFloat(position.size))
+        perpetualPosition.positionSizeUsd = Math.abs(parseFloat(position.size) * price)
+        perpetualPosition.sumOpen = parseFloat(position.sumOpen) * price
+        perpetualPosition.sumExit = parseFloat(position.sumClose)
+        perpetualPosition.netFunding = parseFloat(position.netFunding)
     }
 
     /**
      * Initialize fills to our filled orders object.
      * @param id - Wallet address to fetch fills.
+     * @param perpetualPosition - The position the fills belong to.
+     * @param filledOrders - The filled orders to fill.
      * @param subAccount - Subaccount number (0).
      * @param limit - Number of fills to fetch (max=100).
      */
-    private async initializeFills(id: string, subAccount: number=0, limit: number=100): Promise<void> {
-        if (!this.indexerClient || !this.hasOpenPosition()) return; // Only store order if the position is open
+    private async initializeFills(id: string, perpetualPosition: OpenPosition, filledOrders: FilledOrders, subAccount: number=0, limit: number=100): Promise<void> {
+        if (!this.indexerClient || !this.hasOpenPosition(perpetualPosition)) return; // Only store order if the position is open
 
         // Fetch the fills and define max age of fill
         const fills = await this.indexerClient.account.getSubaccountFills(id.slice(0, -2), subAccount, this.symbol, TickerType.PERPETUAL, limit);
@@ -285,67 +315,80 @@ export class AccountHandler {
             if (fillDate > oneHourAgo) { // Only store orders within the time horizon
                 const price: string = fill.price;
                 const size: string = fill.size;
-                this.storeFills(price, size)
+                this.storeFills(price, size, filledOrders)
             }
         }
     }
 
     /**
      * Checks to see if we have a position open.
+     * @param perpetualPosition - The position to check (the current position by default).
      */
-    private hasOpenPosition(): boolean {
-        return this.perpetualPosition.positionSizeBase > 0;
+    private hasOpenPosition(perpetualPosition: OpenPosition = this.perpetualPosition): boolean {
+        return perpetualPosition.positionSizeBase > 0;
     }
 
     /**
      * Stores an organizes fills.
      * @param price - Price of fill.
      * @param size - Amount filled.
+     * @param filledOrders - The filled orders to store to (the current fills by default).
      */
-    private storeFills(price: string, size: string): void {
-        if (this.filledOrders.has(price)) {
-            this.filledOrders.set(price, this.filledOrders.get(price)! + parseFloat(size));
+    private storeFills(price: string, size: string, filledOrders: FilledOrders = this.filledOrders): void {
+        if (filledOrders.has(price)) {
+            filledOrders.set(price, filledOrders.get(price)! + parseFloat(size));
         } else {
             // Check if the limit is reached
-            if (this.filledOrders.size >= Settings.MaxFills) {
+            if (filledOrders.size >= Settings.MaxFills) {
                 // Delete the oldest entry
-                const oldestKey = this.filledOrders.keys().next().value;
-                this.filledOrders.delete(oldestKey);
+                const oldestKey = filledOrders.keys().next().value;
+                filledOrders.delete(oldestKey);
             }
             // Add the new fill
-            this.filledOrders.set(price, parseFloat(size));
+            filledOrders.set(price, parseFloat(size));
         }
     }
 
     /**
-     * Assigns collateral data.
+     * Builds the collateral data of the account snapshot.
      * @param collateral - The collateral data.
+     * @returns The collateral of the asset.
      */
-    private assignCollateral(collateral: InitAccountMessageAssetPosition): void {
+    private assignCollateral(collateral: InitAccountMessageAssetPosition): Collateral {
         const symbol = collateral[this.asset].symbol
-        const size = parseFloat(collateral[this.asset].size)
-        this.assetPosition = { symbol: symbol, size: size }
+        const size = signedPositionSize(collateral[this.asset].side, parseFloat(collateral[this.asset].size))
+        return { symbol: symbol, size: size }
+    }
+
+    /**
+     * Updates account data with each entry of a batched channel data message, in order.
+     * @param obj - The batched channel data message.
+     */
+    private async updateAccountBatch(obj: ChannelBatchDataMessage): Promise<void> {
+        for (const contents of obj.contents) {
+            await this.updateAccount(contents);
+        }
     }
 
     /**
-     * Updates account data based on a channel data message.
-     * @param obj - The channel data message.
+     * Updates account data based on the contents of a channel data message.
+     * @param contents - The contents of the channel data message.
      */
-    private async updateAccount(obj: ChannelDataMessage): Promise<void> {
+    private async updateAccount(contents: ChannelDataContents): Promise<void> {
         // Update orders
-        const updateOrders = obj.contents.orders
+        const updateOrders = contents.orders
         this.updateOrders(updateOrders)
 
         // Update fills
-        const updateFills = obj.contents.fills
+        const updateFills = contents.fills
         this.updateFills(updateFills)
 
         // Update position
-        const updatePosition = obj.contents.perpetualPositions
+        const updatePosition = contents.perpetualPositions
         await this.updatePosition(updatePosition)
 
         // Update collateral
-        const updateCollateral = obj.contents.assetPositions
+        const updateCollateral = contents.assetPositions
         this.updateCollateral(updateCollateral)
     }
 
@@ -442,7 +485,7 @@ export class AccountHandler {
     private updateCollateral(assetPosition?: ChannelDataAssetPosition): void {
         if (!assetPosition) return;
         const symbol = assetPosition[0].symbol
-        const size = parseFloat(assetPosition[0].size)
+        const size = signedPositionSize(assetPosition[0].side, parseFloat(assetPosition[0].size))
         this.assetPosition = { symbol: symbol, size: size }
     }
 
@@ -0,0 +1,85 @@
+// blockHeightHandler.ts
+import {
+    BlockHeightMessageType,
+    Settings,
+    SubscriptionTypes
+} from "./constants";
+
+/**
+ * Tracks the latest chain height from the v4_block_height channel, so it can be shared and read
+ * synchronously instead of querying the validator for every order.
+ */
+export class BlockHeightHandler {
+    private readonly maxAge: number;
+    private height: number = 0;
+    private receivedAt: number = 0; // Epoch milliseconds of the last height update
+
+    /**
+     * Constructs a BlockHeightHandler instance.
+     * @param maxAge - Milliseconds after which the tracked height is considered stale.
+     */
+    constructor(maxAge: number = Settings.BlockHeightMaxAge) {
+        this.maxAge = maxAge;
+    }
+
+    /**
+     * Handles incoming block height messages and updates the tracked height accordingly.
+     * @param obj - The block height message to handle.
+     * @returns The latest block height.
+     */
+    public handler(obj: BlockHeightMessageType): number {
+        switch (obj.type) {
+            case SubscriptionTypes.Connected:
+                console.log("Block Height Connected.");
+                break;
+
+            case SubscriptionTypes.Subscribed:
+                console.log("Block Height Subscribed. Initializing Data.");
+                this.updateHeight(obj.contents.height);
+                break;
+
+            case SubscriptionTypes.ChannelData:
+                this.updateHeight(obj.contents.blockHeight);
+                break;
+
+            default:
+                console.error("Unhandled message type in BlockHeightHandler:", obj);
+        }
+
+        return this.height;
+    }
+
+    /**
+     * Stores a new height. Heights never move backwards.
+     * @param height - The block height received from the indexer.
+     */
+    private updateHeight(height: string): void {
+        this.height = Math.max(this.height, parseInt(height, 10));
+        this.receivedAt = Date.now();
+    }
+
+    /**
+     * Returns the latest block height if it is fresh.
+     * @returns The block height, or undefined if no height was received within the max age.
+     */
+    public getHeight(): number | undefined {
+        if (this.height === 0 || this.isStale()) return undefined;
+        return this.height;
+    }
+
+    /**
+     * Checks whether the tracked height is older than the max age.
+     * @returns True if the stream is stale.
+     */
+    public isStale(): boolean {
+        return Date.now() - this.receivedAt > this.maxAge;
+    }
+
+    /**
+     * Resets the tracked height to its initial state.
+     */
+    public cleanupBlockHeight(): void {
+        this.height = 0;
+        this.receivedAt = 0;
+    }
+}
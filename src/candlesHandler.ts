@@ -0,0 +1,212 @@
+// candlesHandler.ts
+import {
+    Candle,
+    CandleCloseCallback,
+    CandlesChannelData,
+    CandlesData,
+    CandlesMessageType,
+    InitCandlesMessage,
+    MainnetProfile,
+    NetworkProfile,
+    Resolutions,
+    Settings,
+    SubscriptionTypes
+} from "./constants";
+
+import {Clients} from "./dydxClient";
+import {IndexerClient} from "@dydxprotocol/v4-client-js";
+
+/**
+ * Handles live candle series for different symbols and resolutions from the v4_candles channel,
+ * seeded from the indexer REST API on startup.
+ */
+export class CandlesHandler {
+    private readonly symbols: string[];
+    private readonly resolutions: Resolutions[];
+    private readonly maxCandles: number;
+    private readonly candlesData: CandlesData;
+    private indexerClient?: IndexerClient;
+    private onCandleCloseCallback: CandleCloseCallback | null = null;
+
+    /**
+     * Constructs a CandlesHandler instance.
+     * @param symbols - Array of market symbols to keep candles for.
+     * @param resolutions - Array of resolutions to keep for each symbol.
+     * @param maxCandles - Maximum number of candles kept per symbol and resolution.
+     */
+    constructor(symbols: string[], resolutions: Resolutions[], maxCandles: number = Settings.MaxCandles) {
+        this.symbols = symbols;
+        this.resolutions = resolutions;
+        this.maxCandles = maxCandles;
+        this.candlesData = {};
+        this.forEachSeries((symbol, resolution) => this.initializeCandlesDataForSeries(symbol, resolution));
+    }
+
+    private initializeCandlesDataForSeries(symbol: string, resolution: Resolutions): void {
+        this.candlesData[this.seriesKey(symbol, resolution)] = [];
+    }
+
+    /**
+     * Calls a function for every symbol and resolution pair.
+     * @param fn - The function to call.
+     */
+    private forEachSeries(fn: (symbol: string, resolution: Resolutions) => void): void {
+        this.symbols.forEach(symbol => this.resolutions.forEach(resolution => fn(symbol, resolution)));
+    }
+
+    /**
+     * Builds the key of a series, matching the id of the v4_candles channel.
+     * @param symbol - The market symbol.
+     * @param resolution - The candle resolution.
+     * @returns The series key, e.g. "ETH-USD/1MIN".
+     */
+    private seriesKey(symbol: string, resolution: Resolutions): string {
+        return `${symbol}/${resolution}`;
+    }
+
+    /**
+     * Initializes indexer client for fetching candle history.
+     * @param network - The network profile to fetch data from (mainnet by default).
+     */
+    public async initializeClient(network: NetworkProfile = MainnetProfile): Promise<void> {
+        this.indexerClient = new Clients(network).createIndexerClient();
+    }
+
+    /**
+     * Seeds every series with the most recent candles from the indexer REST API.
+     * Call this on startup, after initializeClient and before the WebSocket delivers updates.
+     */
+    public async seed(): Promise<void> {
+        if (!this.indexerClient) return;
+
+        const requests: Promise<void>[] = [];
+        this.forEachSeries((symbol, resolution) => {
+            requests.push(this.indexerClient!.markets.getPerpetualMarketCandles(symbol, resolution)
+                .then(response => this.mergeCandles(this.seriesKey(symbol, resolution), response.candles ?? []))
+                .catch(err => console.error(`Error seeding candles for ${symbol} ${resolution}:`, err)));
+        });
+        await Promise.all(requests);
+    }
+
+    /**
+     * Sets a callback function to be called with each candle once it is closed by the start of the next candle.
+     * @param callback - The callback function to execute on close of bar.
+     */
+    public onCandleClose(callback: CandleCloseCallback): void {
+        this.onCandleCloseCallback = callback;
+    }
+
+    /**
+     * Handles incoming candle messages and updates the candle series accordingly.
+     * @param obj - The candles message to handle.
+     * @returns The updated candle series.
+     */
+    public handler(obj: CandlesMessageType): CandlesData {
+        switch (obj.type) {
+            case SubscriptionTypes.Connected:
+                console.log("Candles Connected.");
+                break;
+
+            case SubscriptionTypes.Subscribed:
+                console.log("Candles Subscribed. Initializing Data.");
+                this.initializeCandles(obj);
+                break;
+
+            case SubscriptionTypes.ChannelData:
+                this.updateCandles(obj);
+                break;
+
+            default:
+                console.error("Unhandled message type in CandlesHandler:", obj);
+        }
+
+        return this.candlesData;
+    }
+
+    /**
+     * Returns the candle series of a symbol and resolution.
+     * @param symbol - The market symbol.
+     * @param resolution - The candle resolution.
+     * @returns The candles, newest first.
+     */
+    public getCandles(symbol: string, resolution: Resolutions): Candle[] {
+        return this.candlesData[this.seriesKey(symbol, resolution)] ?? [];
+    }
+
+    /**
+     * Merges the snapshot of a subscription message into the series.
+     * @param obj - The initialization candles message.
+     */
+    private initializeCandles(obj: InitCandlesMessage): void {
+        if (!this.candlesData[obj.id]) return;
+        this.mergeCandles(obj.id, obj.contents.candles);
+    }
+
+    /**
+     * Applies a candle update, emitting the close of the previous candle when a new one starts.
+     * @param obj - The candles channel data message.
+     */
+    private updateCandles(obj: CandlesChannelData): void {
+        const series = this.candlesData[obj.id];
+        if (!series) return;
+
+        const candle = obj.contents;
+        const latest = series[0];
+
+        if (!latest || this.startTime(candle) > this.startTime(latest)) {
+            series.unshift(candle);
+            if (series.length > this.maxCandles) {
+                series.length = this.maxCandles;
+            }
+            if (latest) {
+                this.emitCandleClose(latest);
+            }
+        } else if (candle.startedAt === latest.startedAt) {
+            series[0] = candle;
+        } else {
+            // Late update of an older candle
+            this.mergeCandles(obj.id, [candle]);
+        }
+    }
+
+    /**
+     * Merges candles into a series by start time, keeping it sorted newest first and bounded.
+     * @param key - The series key.
+     * @param candles - The candles to merge. They replace existing candles with the same start time.
+     */
+    private mergeCandles(key: string, candles: Candle[]): void {
+        const byStart = new Map<string, Candle>();
+        (this.candlesData[key] ?? []).forEach(candle => byStart.set(candle.startedAt, candle));
+        candles.forEach(candle => byStart.set(candle.startedAt, candle));
+
+        this.candlesData[key] = Array.from(byStart.values())
+            .sort((a, b) => this.startTime(b) - this.startTime(a))
+            .slice(0, this.maxCandles);
+    }
+
+    /**
+     * Converts the start time of a candle to epoch milliseconds.
+     * @param candle - The candle.
+     * @returns The start time in epoch milliseconds.
+     */
+    private startTime(candle: Candle): number {
+        return new Date(candle.startedAt).getTime();
+    }
+
+    /**
+     * Invokes the close-of-bar callback for a candle.
+     * @param candle - The closed candle.
+     */
+    private emitCandleClose(candle: Candle): void {
+        if (this.onCandleCloseCallback) {
+            this.onCandleCloseCallback(candle.ticker, candle.resolution, candle);
+        }
+    }
+
+    /**
+     * Resets the candle series to their initial state.
+     */
+    public cleanupCandles(): void {
+        this.forEachSeries((symbol, resolution) => this.initializeCandlesDataForSeries(symbol, resolution));
+    }
+}
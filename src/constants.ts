@@ -10,9 +10,9 @@ import {
 } from "@dydxprotocol/v4-client-js";
 
 /*
-========== TRADING SYMBOL ==========
+========== MARKET CONFIG ==========
  */
-export const Symbol = "ETH-USD"
+export const DefaultSymbol = "ETH-USD" // Default market of the AccountHandler
 export const CollateralSymbol = "USDC"
 // Add more symbols as needed
 
@@ -40,19 +40,144 @@ export enum DecimalConfig {
     ChainTokenDecimals = 18
 }
 
+/*
+========== NETWORK PROFILES ==========
+ */
+export enum TestnetEndpoint {
+    Indexer = "https://indexer.v4testnet.dydx.exchange/",
+    WebSocket = "wss://indexer.v4testnet.dydx.exchange/v4/ws",
+    Validator = "https://test-dydx-rpc.kingnodes.com",
+    ChainId = "dydx-testnet-4",
+    Testnet = "testnet"
+}
+export enum TestnetDenomConfig {
+    ChainToken = "adv4tnt"
+}
+
+export interface NetworkDenoms {
+    usdc: string;
+    usdcDecimals: number;
+    usdcGas: string;
+    chainToken: string;
+    chainTokenDecimals: number;
+}
+
+export interface NetworkProfile {
+    name: string;
+    indexer: string;
+    webSocket: string;
+    validator: string;
+    chainId: string;
+    denoms: NetworkDenoms;
+}
+
+export const MainnetProfile: NetworkProfile = {
+    name: Endpoint.Mainnet,
+    indexer: Endpoint.Indexer,
+    webSocket: Endpoint.WebSocket,
+    validator: Endpoint.Validator,
+    chainId: Endpoint.ChainId,
+    denoms: {
+        usdc: DenomConfig.Usdc,
+        usdcDecimals: DecimalConfig.Usdc,
+        usdcGas: DenomConfig.UsdcGas,
+        chainToken: DenomConfig.ChainToken,
+        chainTokenDecimals: DecimalConfig.ChainTokenDecimals
+    }
+}
+
+export const TestnetProfile: NetworkProfile = {
+    name: TestnetEndpoint.Testnet,
+    indexer: TestnetEndpoint.Indexer,
+    webSocket: TestnetEndpoint.WebSocket,
+    validator: TestnetEndpoint.Validator,
+    chainId: TestnetEndpoint.ChainId,
+    denoms: {
+        ...MainnetProfile.denoms,
+        chainToken: TestnetDenomConfig.ChainToken
+    }
+}
+
+/**
+ * Builds a network profile from user-supplied endpoints, e.g. for a local stand-in indexer.
+ * @param name - The name of the network.
+ * @param indexer - The indexer REST endpoint.
+ * @param webSocket - The indexer WebSocket endpoint.
+ * @param validator - The validator RPC endpoint.
+ * @param chainId - The chain id of the network.
+ * @param denoms - Denoms and decimals that differ from mainnet.
+ * @returns The custom network profile.
+ */
+export function customNetworkProfile(
+    name: string,
+    indexer: string,
+    webSocket: string,
+    validator: string,
+    chainId: string,
+    denoms: Partial<NetworkDenoms> = {}
+): NetworkProfile {
+    return {
+        name,
+        indexer,
+        webSocket,
+        validator,
+        chainId,
+        denoms: { ...MainnetProfile.denoms, ...denoms }
+    }
+}
+
 /*
 ========== SOCKET HANDLER ==========
  */
 export type Subscription = {
     "type": string,
     "channel": string,
-    "id"?: string
+    "id"?: string,
+    "batched"?: boolean
+}
+export interface SocketHandlerOptions {
+    network?: NetworkProfile,
+    recordPath?: string, // Appends every raw frame to this JSONL file
+    pongTimeout?: number, // Milliseconds to wait for a pong before reconnecting
+    staleTimeouts?: StaleTimeouts, // Milliseconds without data per channel before reconnecting
+    reconnect?: ReconnectOptions
+}
+
+export interface ReconnectOptions {
+    baseDelay?: number, // Milliseconds before the first reconnect attempt, doubled on every attempt
+    maxDelay?: number, // Cap on the delay between attempts in milliseconds
+    maxAttempts?: number, // Attempts before the connection is marked as failed
+    jitter?: number // Fraction (0 to 1) by which each delay is randomly varied
+}
+
+export enum ConnectionState {
+    Connecting = "connecting",
+    Open = "open",
+    Subscribed = "subscribed",
+    Reconnecting = "reconnecting",
+    Failed = "failed",
+    Stopped = "stopped"
+}
+export type StateChangeCallback = (state: ConnectionState, previous: ConnectionState) => void;
+
+export type StaleTimeouts = { [channel: string]: number };
+export type StaleCallback = (channel: string) => void;
+
+// A single line of a recorded session
+export interface RecordedFrame {
+    receivedAt: number, // Epoch milliseconds
+    data: string
+}
+export enum SubscriptionActions {
+    Subscribe = "subscribe",
+    Unsubscribe = "unsubscribe"
 }
 export enum WebSocketEvent {
     Open = 'open',
     Message = 'message',
     Error = 'error',
     Close = 'close',
+    Pong = 'pong',
 }
 export interface InitSocketMessage {
     type: SubscriptionTypes.Connected,
@@ -63,13 +188,28 @@ export interface InitSocketMessage {
 export enum SubscriptionTypes {
     Connected = "connected",
     Subscribed = "subscribed",
-    ChannelData = "channel_data"
+    Unsubscribed = "unsubscribed",
+    ChannelData = "channel_data",
+    ChannelBatchData = "channel_batch_data",
+    Error = "error"
+}
+
+export interface ErrorSocketMessage {
+    type: SubscriptionTypes.Error,
+    connection_id: string,
+    message_id: number,
+    message: string,
+    channel?: string,
+    id?: string
 }
 
 export enum ChannelTypes {
     Markets = "v4_markets",
     Orderbook = "v4_orderbook",
-    Subaccounts = "v4_subaccounts"
+    Subaccounts = "v4_subaccounts",
+    Trades = "v4_trades",
+    Candles = "v4_candles",
+    BlockHeight = "v4_block_height"
 }
 
 export function subMarkets() {
@@ -79,26 +219,76 @@ export function subMarkets() {
     }
 }
 
-export function subOrderbook(symbol: string) {
+export function subOrderbook(symbol: string, batched: boolean = false) {
     return {
         'type': 'subscribe',
         'channel': ChannelTypes.Orderbook,
-        'id': `${symbol}`
+        'id': `${symbol}`,
+        'batched': batched
     }
 }
 
-export function subAccount(address: string) {
+export function subAccount(address: string, batched: boolean = false) {
     return {
         'type': 'subscribe',
         'channel': ChannelTypes.Subaccounts,
-        'id': `${address}/0`
+        'id': `${address}/0`,
+        'batched': batched
+    }
+}
+
+export function subTrades(symbol: string) {
+    return {
+        'type': 'subscribe',
+        'channel': ChannelTypes.Trades,
+        'id': `${symbol}`
+    }
+}
+
+export function subCandles(symbol: string, resolution: Resolutions) {
+    return {
+        'type': 'subscribe',
+        'channel': ChannelTypes.Candles,
+        'id': `${symbol}/${resolution}`
+    }
+}
+
+export function subBlockHeight() {
+    return {
+        'type': 'subscribe',
+        'channel': ChannelTypes.BlockHeight
+    }
+}
+
+export function unsubscribe(subscription: Subscription): Subscription {
+    return {
+        ...subscription,
+        'type': SubscriptionActions.Unsubscribe
     }
 }
 
 // All object types for each stream
-export type AllObjectTypes = MarketsMessageType | ObMessageType | AccountMessageType
+export type AllObjectTypes = MarketsMessageType | ObMessageType | AccountMessageType | TradesMessageType | CandlesMessageType | BlockHeightMessageType | ErrorSocketMessage
 export type MessageCallback = (data: AllObjectTypes) => void;
 
+/*
+========== MESSAGE DISPATCHER ==========
+ */
+// Message types delivered to the handlers of each channel
+export type ChannelMessageMap = {
+    [ChannelTypes.Markets]: MarketsMessageType,
+    [ChannelTypes.Orderbook]: ObMessageType,
+    [ChannelTypes.Subaccounts]: AccountMessageType,
+    [ChannelTypes.Trades]: TradesMessageType,
+    [ChannelTypes.Candles]: CandlesMessageType,
+    [ChannelTypes.BlockHeight]: BlockHeightMessageType
+}
+export type ChannelHandler<T> = (data: T) => unknown;
+export type ChannelHandlerRegistry = { [C in keyof ChannelMessageMap]?: Map<string, ChannelHandler<ChannelMessageMap[C]>[]> }; // Handlers per channel and id
+export type ErrorMessageCallback = (data: ErrorSocketMessage) => void;
+export type UnknownChannelCallback = (data: AllObjectTypes) => void;
+export const AnyId = "*"
+
 /*
 ========== MARKETS HANDLER ==========
  */
@@ -147,16 +337,16 @@ export interface MarketChannelData {
     contents: MarketMessageContents,
 }
 
-interface MarketMessageContents {
+export interface MarketMessageContents {
     trading?: TradingMarketMessageContents,
     oraclePrices?: OraclePriceMarketMessageContentsMapping,
 }
 
-type TradingMarketMessageContents = {
+export type TradingMarketMessageContents = {
     [ticker: string]: TradingPerpetualMarketMessage
 };
 
-interface TradingPerpetualMarketMessage {
+export interface TradingPerpetualMarketMessage {
     id?: string;
     clobPairId?: string;
     ticker?: string;
@@ -190,11 +380,11 @@ export enum PerpetualMarketStatus {
     POST_ONLY = "POST_ONLY"
 }
 
-type OraclePriceMarketMessageContentsMapping = {
+export type OraclePriceMarketMessageContentsMapping = {
     [ticker: string]: OraclePriceMarket,
 };
 
-interface OraclePriceMarket {
+export interface OraclePriceMarket {
     price: string,
     effectiveAt: IsoString,
     effectiveAtHeight: string,
@@ -213,6 +403,34 @@ export type TradeData = {
 
 export type MarketsMessageType = InitSocketMessage | InitMarketMessage | MarketChannelData
 
+// Full per-symbol market state, merged from the snapshot, trading updates and oracle prices
+export interface MarketState extends MarketData {
+    marketId?: number;
+    baseAsset?: string;
+    quoteAsset?: string;
+    basePositionSize?: string;
+    incrementalPositionSize?: string;
+    maxPositionSize?: string;
+    minOrderBaseQuantums?: number;
+    oraclePriceEffectiveAt?: IsoString;
+    oraclePriceEffectiveAtHeight?: string;
+}
+
+export interface MarketStates {
+    [key: string]: MarketState
+}
+
+export const QuoteAtomicResolution = -6 // USDC
+
+export interface MarketFilter {
+    status?: PerpetualMarketStatus | PerpetualMarketStatus[];
+    minVolume24H?: number; // USD
+    minOpenInterestUsd?: number; // Open interest valued at the oracle price
+}
+
+export type MarketStatusCallback = (symbol: string, status: PerpetualMarketStatus, previous: PerpetualMarketStatus) => void;
+export type OrderRejectedCallback = (error: Error) => void; // Orders rejected before they reach the chain
+
 export interface MarketTradeData {
     [key: string]: {
         priceRound: number;
@@ -240,7 +458,7 @@ export interface InitOrderbookMessageContents {
     asks: InitPriceLevel
 }
 
-export type InitPriceLevel = { price: string; size: string }[];
+export type InitPriceLevel = { price: string; size: string; offset?: string }[];
 
 export interface UpdateOrderbook {
     type: SubscriptionTypes.ChannelData,
@@ -257,14 +475,24 @@ export interface UpdateOrderbookMessageContents {
     asks?: UpdatePriceLevel[]
 }
 
-type UpdatePriceLevel = [string, string];
+export interface BatchUpdateOrderbook {
+    type: SubscriptionTypes.ChannelBatchData,
+    connection_id: string,
+    message_id: number,
+    channel: ChannelTypes.Orderbook,
+    id: string,
+    version: string,
+    contents: UpdateOrderbookMessageContents[]
+}
+
+export type UpdatePriceLevel = [string, string] | [string, string, string]; // Price, size and optional offset
 
 export type PriceLevel = {
     price: number;
     size: number;
 };
 
-export type ObMessageType = InitSocketMessage | InitOrderbook | UpdateOrderbook;
+export type ObMessageType = InitSocketMessage | InitOrderbook | UpdateOrderbook | BatchUpdateOrderbook;
 
 export interface Orderbook {
     bids: PriceLevel[];
@@ -283,6 +511,28 @@ export enum BookSide {
     ASKS = "asks"
 }
 
+export enum CrossedBookPolicy {
+    Resubscribe = "resubscribe", // Resubscribe to the v4_orderbook channel for a fresh snapshot
+    Rest = "rest", // Replace the book with a snapshot from the indexer REST API
+    Ignore = "ignore" // Only count the crossed book
+}
+
+export interface OrderbookSpread {
+    absolute: number;
+    ticks?: number; // Only known when the tick size of the market is
+    bps: number; // Relative to the mid
+}
+
+export interface FillEstimate {
+    filledSize: number; // Base size that the book can fill
+    notional: number; // USD value of the filled size
+    vwap: number;
+    worstPrice: number;
+    slippage: number; // VWAP distance from the mid as a fraction, positive when it costs
+    slippageBps: number;
+    complete: boolean; // Whether the book is deep enough for the whole size
+}
+
 /*
 ========== ACCOUNT HANDLER ==========
  */
@@ -307,7 +557,7 @@ export interface InitAccountMessageSubAccount {
     subaccountNumber: string;
     equity: string;
     freeCollateral: string;
-    openPerpetualPositions: InitAccountMessageOpenPerpPositions | {};
+    openPerpetualPositions: InitAccountMessageOpenPerpPositions;
     assetPositions: InitAccountMessageAssetPosition;
     marginEnabled: boolean;
 }
@@ -341,7 +591,7 @@ export interface InitAccountMessageAssetPosition {
 export interface InitAssetPosition {
     size: string;
     symbol: string;
-    side: PositionSide.LONG;
+    side: PositionSide; // SHORT for a negative balance
     assetId: string;
 }
 
@@ -381,6 +631,16 @@ export interface ChannelDataMessage {
     contents: ChannelDataContents;
 }
 
+export interface ChannelBatchDataMessage {
+    type: SubscriptionTypes.ChannelBatchData;
+    connection_id: string;
+    message_id: number;
+    id: string;
+    channel: ChannelTypes.Subaccounts;
+    version: string;
+    contents: ChannelDataContents[];
+}
+
 export interface ChannelDataContents {
     orders?: ChannelDataOrder[];
     fills?: ChannelDataFill[];
@@ -462,11 +722,11 @@ interface AssetPosition {
     positionId: string;
     assetId: string;
     symbol: string;
-    side: PositionSide.LONG;
+    side: PositionSide; // SHORT for a negative balance
     size: string;
 }
 
-export type AccountMessageType = InitSocketMessage | InitAccountMessage | ChannelDataMessage
+export type AccountMessageType = InitSocketMessage | InitAccountMessage | ChannelDataMessage | ChannelBatchDataMessage
 
 export interface OpenOrders {
     bids: { [key: string]: OrderInfo };
@@ -493,11 +753,12 @@ export interface OpenPosition {
     sumExit: number;
     realizedPnl: number;
     unrealizedPnl: number;
+    netFunding: number;
 }
 
 export interface Collateral {
     symbol: string;
-    size: number;
+    size: number; // Signed, negative for a negative balance
 }
 
 export type PositionData = [OpenOrders, FilledOrders, OpenPosition, Collateral, boolean[]]
@@ -524,13 +785,114 @@ export interface Fill {
     "clientMetadata": "string"
 }
 
+/*
+========== TRADES HANDLER ==========
+ */
+export interface InitTradesMessage {
+    type: SubscriptionTypes.Subscribed;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.Trades;
+    id: string;
+    contents: TradesMessageContents;
+}
+
+export interface TradesChannelData {
+    type: SubscriptionTypes.ChannelData;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.Trades;
+    id: string;
+    version: string;
+    contents: TradesMessageContents;
+}
+
+export interface TradesMessageContents {
+    trades: TradeMessage[]; // Newest first
+}
+
+export interface TradeMessage {
+    id: string;
+    side: OrderSide;
+    size: string;
+    price: string;
+    type: string;
+    createdAt: IsoString;
+    createdAtHeight?: string;
+}
+
+export type TradesMessageType = InitSocketMessage | InitTradesMessage | TradesChannelData
+
+export interface Trade {
+    id: string;
+    side: OrderSide;
+    price: number;
+    size: number;
+    createdAt: string;
+}
+
+export interface TradeTape {
+    trades: Trade[]; // Newest first
+    buyVolume: number;
+    sellVolume: number;
+    tradeCount: number;
+    lastPrice: number;
+}
+
+export interface TradesData {
+    [key: string]: TradeTape
+}
+
+/*
+========== BLOCK HEIGHT HANDLER ==========
+ */
+export interface InitBlockHeightMessage {
+    type: SubscriptionTypes.Subscribed;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.BlockHeight;
+    contents: {
+        height: string;
+        time: IsoString;
+    };
+}
+
+export interface BlockHeightChannelData {
+    type: SubscriptionTypes.ChannelData;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.BlockHeight;
+    version: string;
+    contents: {
+        blockHeight: string;
+        time: IsoString;
+    };
+}
+
+export type BlockHeightMessageType = InitSocketMessage | InitBlockHeightMessage | BlockHeightChannelData
+
 /*
 ========== DEFAULT CONSTANTS ==========
  */
 export enum Settings {
     MaxFills = 200,
     OrderbookLength = 20,
-    GTT = 300
+    GTT = 300,
+    PingInterval = 30000,
+    PongTimeout = 10000,
+    WatchdogInterval = 1000,
+    RotationTimeout = 60000,
+    ReconnectBaseDelay = 1000,
+    ReconnectMaxDelay = 300000,
+    MaxReconnectAttempts = 10,
+    TradeTapeLength = 500,
+    MaxCandles = 500,
+    GoodTilBlockOffset = 20,
+    BlockHeightMaxAge = 5000,
+    OracleHistoryLength = 1000,
+    ImbalanceLevels = 5,
+    LadderMaxLevel = 16,
+    MaxTombstones = 1000
 }
 
 export function defaultOpenOrderProperties() {
@@ -551,20 +913,24 @@ export function defaultPositionProperties() {
         sumExit: 0,
         realizedPnl: 0,
         unrealizedPnl: 0,
+        netFunding: 0,
     };
 }
 export function defaultCollateralProperties() {
     return { symbol: "", size: 0 };
 }
+export function defaultTradeTapeProperties(): TradeTape {
+    return { trades: [], buyVolume: 0, sellVolume: 0, tradeCount: 0, lastPrice: 0 };
+}
 
 /*
 ========== CANDLES ==========
  */
-interface CandleResponse {
-    candles: Candle[];
+export interface CandleResponse {
+    candles: Candle[]; // Newest first
 }
 
-interface Candle {
+export interface Candle {
     startedAt: string;
     ticker: string;
     resolution: Resolutions;
@@ -589,6 +955,88 @@ export enum Resolutions {
     OneDay = "1DAY",
 }
 
+export interface InitCandlesMessage {
+    type: SubscriptionTypes.Subscribed;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.Candles;
+    id: string; // "ETH-USD/1MIN"
+    contents: CandleResponse;
+}
+
+export interface CandlesChannelData {
+    type: SubscriptionTypes.ChannelData;
+    connection_id: string;
+    message_id: number;
+    channel: ChannelTypes.Candles;
+    id: string;
+    version: string;
+    contents: Candle;
+}
+
+export type CandlesMessageType = InitSocketMessage | InitCandlesMessage | CandlesChannelData
+
+export interface CandlesData {
+    [key: string]: Candle[] // Keyed by "symbol/resolution", newest first
+}
+
+export type CandleCloseCallback = (symbol: string, resolution: Resolutions, candle: Candle) => void;
+
+/*
+========== FUNDING ==========
+ */
+export interface FundingProjection {
+    symbol: string;
+    fundingRate: number; // Hourly rate, positive when longs pay shorts
+    oraclePrice: number;
+    positionSize: number; // Signed base size, negative when short
+    payment: number; // Projected USD payment, negative when paid and positive when received
+    nextFundingAt: Date;
+}
+
+/*
+========== ORACLE HISTORY ==========
+ */
+export const oneYear = 365 * 24 * oneHour
+
+export interface OraclePoint {
+    price: number;
+    effectiveAt: number; // Epoch milliseconds
+    effectiveAtHeight: number;
+}
+
+export interface OracleBasis {
+    oraclePrice: number;
+    mid: number;
+    basis: number; // Mid minus oracle price
+    basisBps: number; // Basis relative to the oracle price, in basis points
+}
+
+/*
+========== MARGIN ==========
+ */
+export interface PositionMargin {
+    symbol: string;
+    size: number; // Signed base size, negative when short
+    oraclePrice: number;
+    notional: number; // Absolute USD value at the oracle price
+    initialMarginFraction: number; // Adjusted for the position notional
+    maintenanceMarginFraction: number;
+    initialMarginRequirement: number;
+    maintenanceMarginRequirement: number;
+    liquidationPrice?: number; // Undefined when the position cannot be liquidated by its own price
+}
+
+export interface MarginReport {
+    collateral: number; // USDC balance
+    equity: number;
+    initialMarginRequirement: number;
+    maintenanceMarginRequirement: number;
+    freeCollateral: number;
+    marginUsage: number; // Initial margin requirement over equity
+    positions: PositionMargin[];
+}
+
 /*
 ========== ORDERS ==========
  */
@@ -1,8 +1,7 @@
 // dydxClient.ts
 import {
-    Endpoint,
-    DenomConfig,
-    DecimalConfig
+    MainnetProfile,
+    NetworkProfile
 } from "./constants"
 
 import {
@@ -29,41 +28,53 @@ export class Clients {
      * Configuration for the dYdX Indexer API. This configuration specifies the endpoints
      * for the Indexer API and WebSocket connections.
      */
-    private mainnetIndexerConfig: IndexerConfig = new IndexerConfig(
-        Endpoint.Indexer,
-        Endpoint.WebSocket
-    )
+    private indexerConfig: IndexerConfig;
 
     /**
      * Configuration for the dYdX Validator API. This configuration includes the endpoint
      * for the Validator API and settings related to the blockchain network, such as
      * denominations and decimals for various tokens.
      */
-    private mainnetValidatorConfig: ValidatorConfig = new ValidatorConfig(
-        Endpoint.Validator,
-        Endpoint.ChainId,
-        {
-            USDC_DENOM: DenomConfig.Usdc,
-            USDC_DECIMALS: DecimalConfig.Usdc,
-            USDC_GAS_DENOM: DenomConfig.UsdcGas,
-            CHAINTOKEN_DENOM: DenomConfig.ChainToken,
-            CHAINTOKEN_DECIMALS: DecimalConfig.ChainTokenDecimals
-        }
-    )
+    private validatorConfig: ValidatorConfig;
 
     /**
-     * Custom configuration for the dYdX mainnet network. This configuration combines
+     * Custom configuration for the selected dYdX network. This configuration combines
      * both Indexer and Validator configurations to facilitate interactions with the
-     * dYdX mainnet.
+     * network.
      */
-    private mainnetNetwork: Network = new Network(Endpoint.Mainnet, this.mainnetIndexerConfig, this.mainnetValidatorConfig);
+    private network: Network;
+
+    /**
+     * Constructs a Clients instance for a network profile.
+     * @param profile - The network profile to connect to (mainnet by default).
+     */
+    constructor(profile: NetworkProfile = MainnetProfile) {
+        this.indexerConfig = new IndexerConfig(
+            profile.indexer,
+            profile.webSocket
+        )
+
+        this.validatorConfig = new ValidatorConfig(
+            profile.validator,
+            profile.chainId,
+            {
+                USDC_DENOM: profile.denoms.usdc,
+                USDC_DECIMALS: profile.denoms.usdcDecimals,
+                USDC_GAS_DENOM: profile.denoms.usdcGas,
+                CHAINTOKEN_DENOM: profile.denoms.chainToken,
+                CHAINTOKEN_DECIMALS: profile.denoms.chainTokenDecimals
+            }
+        )
+
+        this.network = new Network(profile.name, this.indexerConfig, this.validatorConfig);
+    }
 
     /**
      * Creates an Indexer Client for interacting with the dYdX Indexer API.
      * @returns The IndexerClient instance.
      */
     public createIndexerClient(): IndexerClient {
-        return new IndexerClient(this.mainnetNetwork.indexerConfig)
+        return new IndexerClient(this.network.indexerConfig)
     }
 
     /**
@@ -85,7 +96,7 @@ export class Clients {
         onMessage: (data: any) => void // Use appropriate WebSocket.Data type
     ): SocketClient {
         const socketClient: SocketClient = new SocketClient(
-            this.mainnetNetwork.indexerConfig,
+            this.network.indexerConfig,
             onOpen,
             onClose,
             onMessage,
@@ -100,7 +111,7 @@ export class Clients {
      * @returns A promise that resolves to the ValidatorClient instance.
      */
     public createValidatorClient(): Promise<ValidatorClient> {
-        return ValidatorClient.connect(this.mainnetNetwork.validatorConfig);
+        return ValidatorClient.connect(this.network.validatorConfig);
     }
 
     /**
@@ -108,7 +119,7 @@ export class Clients {
      * @returns A promise that resolves to the CompositeClient instance.
      */
     public createCompositeClient(): Promise<CompositeClient> {
-        return CompositeClient.connect(this.mainnetNetwork);
+        return CompositeClient.connect(this.network);
     }
 
     /**
@@ -0,0 +1,45 @@
+// errors.ts
+import {PerpetualMarketStatus} from "./constants";
+
+/**
+ * Thrown when an order is rejected before it reaches the chain because the status of its market does not allow it.
+ */
+export class MarketStatusError extends Error {
+    public readonly symbol: string;
+    public readonly status: PerpetualMarketStatus;
+
+    /**
+     * Constructs a MarketStatusError instance.
+     * @param symbol - The market symbol of the rejected order.
+     * @param status - The status of the market at the time of the order.
+     */
+    constructor(symbol: string, status: PerpetualMarketStatus) {
+        super(`Order rejected: market ${symbol} is ${status}`);
+        this.name = 'MarketStatusError';
+        this.symbol = symbol;
+        this.status = status;
+    }
+}
+
+/**
+ * Thrown when an order is rejected before it reaches the chain because its size rounds below the minimum order size.
+ */
+export class OrderSizeError extends Error {
+    public readonly symbol: string;
+    public readonly size: number;
+    public readonly minSize: string;
+
+    /**
+     * Constructs an OrderSizeError instance.
+     * @param symbol - The market symbol of the rejected order.
+     * @param size - The requested size.
+     * @param minSize - The minimum order size of the market.
+     */
+    constructor(symbol: string, size: number, minSize: string) {
+        super(`Order rejected: size ${size} is below the minimum of ${minSize} for ${symbol}`);
+        this.name = 'OrderSizeError';
+        this.symbol = symbol;
+        this.size = size;
+        this.minSize = minSize;
+    }
+}
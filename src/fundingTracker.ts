@@ -0,0 +1,105 @@
+// fundingTracker.ts
+import {FundingProjection, oneHour, OpenPosition} from "./constants";
+import {MarketsHandler} from "./marketsHandler";
+import {signedPositionSize} from "./utils";
+
+/**
+ * Tracks the next funding rate of each market, read from the MarketsHandler, together with the accrued funding
+ * of each position, fed from the AccountHandler, and projects the next hourly funding payment.
+ */
+export class FundingTracker {
+    private readonly markets: MarketsHandler;
+    private readonly positions: Map<string, OpenPosition> = new Map();
+
+    /**
+     * Constructs a FundingTracker instance.
+     * @param markets - The MarketsHandler providing funding rates and oracle prices.
+     */
+    constructor(markets: MarketsHandler) {
+        this.markets = markets;
+    }
+
+    /**
+     * Updates the tracked position of a market, e.g. with the position returned by the AccountHandler.
+     * A closed position (size 0) is no longer tracked. A reset position carries no symbol, so it clears the market
+     * given as symbol, or every market when the symbol is not given either.
+     * @param position - The current position.
+     * @param symbol - The market of the position (the symbol of the position by default).
+     */
+    public updatePosition(position: OpenPosition, symbol: string = position.symbol): void {
+        if (!symbol) {
+            this.positions.clear();
+        } else if (!position.symbol || position.positionSizeBase === 0) {
+            this.positions.delete(symbol);
+        } else {
+            this.positions.set(symbol, { ...position });
+        }
+    }
+
+    /**
+     * Returns the next funding rate of a market.
+     * @param symbol - The market symbol.
+     * @returns The hourly funding rate, or undefined if the market has no data yet.
+     */
+    public getFundingRate(symbol: string): number | undefined {
+        const market = this.markets.getMarket(symbol);
+        return market ? parseFloat(market.nextFundingRate) : undefined;
+    }
+
+    /**
+     * Returns the funding accrued by the position of a market since it was opened.
+     * @param symbol - The market symbol.
+     * @returns The net funding in USD, positive when received.
+     */
+    public getNetFunding(symbol: string): number {
+        return this.positions.get(symbol)?.netFunding ?? 0;
+    }
+
+    /**
+     * Returns the signed size of the tracked position of a market.
+     * @param symbol - The market symbol.
+     * @returns The base size, negative when short and 0 without a position.
+     */
+    public getPositionSize(symbol: string): number {
+        const position = this.positions.get(symbol);
+        return position ? signedPositionSize(position.direction, position.positionSizeBase) : 0;
+    }
+
+    /**
+     * Returns the time of the next funding payment. Funding is paid at the top of every hour.
+     * @param now - The current time in epoch milliseconds.
+     * @returns The time of the next funding payment.
+     */
+    public getNextFundingTime(now: number = Date.now()): Date {
+        return new Date((Math.floor(now / oneHour) + 1) * oneHour);
+    }
+
+    /**
+     * Projects the next funding payment for the current position size at the current oracle price.
+     * Longs pay shorts when the rate is positive and shorts pay longs when it is negative.
+     * @param symbol - The market symbol.
+     * @returns The funding projection, or undefined if the market has no data yet.
+     */
+    public projectNextPayment(symbol: string): FundingProjection | undefined {
+        const fundingRate = this.getFundingRate(symbol);
+        const oraclePrice = this.markets.getOraclePrice(symbol);
+        if (fundingRate === undefined || oraclePrice === undefined) return undefined;
+
+        const positionSize = this.getPositionSize(symbol);
+        return {
+            symbol,
+            fundingRate,
+            oraclePrice,
+            positionSize,
+            payment: -positionSize * oraclePrice * fundingRate,
+            nextFundingAt: this.getNextFundingTime()
+        };
+    }
+
+    /**
+     * Resets the tracked positions.
+     */
+    public cleanupFunding(): void {
+        this.positions.clear();
+    }
+}
@@ -0,0 +1,223 @@
+// marginCalculator.ts
+import {OrderSide, PositionStatus} from "@dydxprotocol/v4-client-js";
+import {
+    Collateral,
+    CollateralSymbol,
+    InitAccountMessageSubAccount,
+    MarginReport,
+    OpenPosition,
+    PositionMargin
+} from "./constants";
+import {MarketsHandler} from "./marketsHandler";
+import {signedPositionSize} from "./utils";
+
+/**
+ * Computes margin requirements, margin usage, buying power and liquidation prices of an account from its
+ * collateral and positions, using the margin fractions and oracle prices of the MarketsHandler.
+ */
+export class MarginCalculator {
+    private readonly markets: MarketsHandler;
+    private collateral = 0;
+    private readonly positions: Map<string, number> = new Map(); // Signed base size per symbol
+
+    /**
+     * Constructs a MarginCalculator instance.
+     * @param markets - The MarketsHandler providing margin fractions and oracle prices.
+     */
+    constructor(markets: MarketsHandler) {
+        this.markets = markets;
+    }
+
+    /**
+     * Replaces the account state with the subaccount of a v4_subaccounts snapshot.
+     * @param subaccount - The subaccount of the snapshot.
+     */
+    public setAccount(subaccount: InitAccountMessageSubAccount): void {
+        this.cleanupMargin();
+
+        const usdc = subaccount.assetPositions[CollateralSymbol];
+        if (usdc) {
+            this.collateral = signedPositionSize(usdc.side, parseFloat(usdc.size));
+        }
+
+        const positions = Object.values(subaccount.openPerpetualPositions);
+        for (const position of positions) {
+            if (position.status === PositionStatus.OPEN) {
+                this.positions.set(position.market, parseFloat(position.size));
+            }
+        }
+    }
+
+    /**
+     * Updates the USDC balance, e.g. with the collateral returned by the AccountHandler.
+     * @param collateral - The current collateral, with a signed size.
+     */
+    public updateCollateral(collateral: Collateral): void {
+        if (collateral.symbol !== CollateralSymbol) return;
+        this.collateral = collateral.size;
+    }
+
+    /**
+     * Updates the position of a market, e.g. with the position returned by the AccountHandler.
+     * A reset position carries no symbol, so it clears the market given as symbol, or every market when the symbol
+     * is not given either.
+     * @param position - The current position.
+     * @param symbol - The market of the position (the symbol of the position by default).
+     */
+    public updatePosition(position: OpenPosition, symbol: string = position.symbol): void {
+        if (!symbol) {
+            this.positions.clear();
+            return;
+        }
+
+        const size = position.symbol ? signedPositionSize(position.direction, position.positionSizeBase) : 0;
+        if (size === 0) {
+            this.positions.delete(symbol);
+        } else {
+            this.positions.set(symbol, size);
+        }
+    }
+
+    /**
+     * Returns the margin fractions of a market for a position notional. Above the base position notional, the initial
+     * margin fraction grows with the square root of the notional and the maintenance margin fraction grows with it.
+     * @param symbol - The market symbol.
+     * @param notional - The absolute position notional in USD.
+     * @returns The initial and maintenance margin fractions, or undefined if the market has no data yet.
+     */
+    public getMarginFractions(symbol: string, notional: number = 0): [number, number] | undefined {
+        const market = this.markets.getMarket(symbol);
+        if (!market) return undefined;
+
+        const baseImf = parseFloat(market.initialMarginFraction);
+        const baseMmf = parseFloat(market.maintenanceMarginFraction);
+        const basePositionNotional = parseFloat(market.basePositionNotional);
+
+        if (!(basePositionNotional > 0) || notional <= basePositionNotional || baseImf === 0) {
+            return [baseImf, baseMmf];
+        }
+
+        const imf = Math.min(1, baseImf * Math.sqrt(notional / basePositionNotional));
+        return [imf, baseMmf * (imf / baseImf)];
+    }
+
+    /**
+     * Computes the margin of every position and of the account as a whole.
+     * Positions in markets without data yet are left out.
+     * @returns The margin report.
+     */
+    public getReport(): MarginReport {
+        const positions: PositionMargin[] = [];
+        let equity = this.collateral;
+
+        this.positions.forEach((size, symbol) => {
+            const margin = this.getPositionMargin(symbol, size);
+            if (!margin) return;
+
+            positions.push(margin);
+            equity += size * margin.oraclePrice;
+        });
+
+        const initialMarginRequirement = positions.reduce((sum, p) => sum + p.initialMarginRequirement, 0);
+        const maintenanceMarginRequirement = positions.reduce((sum, p) => sum + p.maintenanceMarginRequirement, 0);
+
+        positions.forEach(position => {
+            position.liquidationPrice = this.calculateLiquidationPrice(position, equity, maintenanceMarginRequirement);
+        });
+
+        return {
+            collateral: this.collateral,
+            equity,
+            initialMarginRequirement,
+            maintenanceMarginRequirement,
+            freeCollateral: equity - initialMarginRequirement,
+            marginUsage: equity > 0 ? initialMarginRequirement / equity : (initialMarginRequirement > 0 ? Infinity : 0),
+            positions
+        };
+    }
+
+    /**
+     * Estimates the largest USD notional of a new order. An order against the current position first closes it,
+     * releasing its margin, and the remaining free collateral opens new exposure at the initial margin fraction.
+     * @param symbol - The market symbol of the order.
+     * @param side - The side of the order.
+     * @returns The buying power in USD, or 0 if the market has no data yet.
+     */
+    public getBuyingPower(symbol: string, side: OrderSide): number {
+        const oraclePrice = this.markets.getOraclePrice(symbol);
+        const size = this.positions.get(symbol) ?? 0;
+        const fractions = this.getMarginFractions(symbol, Math.abs(size) * (oraclePrice ?? 0));
+        if (oraclePrice === undefined || !fractions) return 0;
+
+        const [imf] = fractions;
+        const reducing = side === OrderSide.BUY ? size < 0 : size > 0;
+        const closeNotional = reducing ? Math.abs(size) * oraclePrice : 0;
+        const freeCollateral = this.getReport().freeCollateral + closeNotional * imf;
+
+        if (imf === 0) return Infinity;
+        return closeNotional + Math.max(0, freeCollateral) / imf;
+    }
+
+    /**
+     * Estimates the liquidation price of the position of a market, with every other position at its oracle price.
+     * @param symbol - The market symbol.
+     * @returns The liquidation price, or undefined without a position or when the position cannot be liquidated.
+     */
+    public getLiquidationPrice(symbol: string): number | undefined {
+        return this.getReport().positions.find(position => position.symbol === symbol)?.liquidationPrice;
+    }
+
+    /**
+     * Computes the margin of a single position at the oracle price.
+     * @param symbol - The market symbol.
+     * @param size - The signed base size.
+     * @returns The position margin, or undefined if the market has no data yet.
+     */
+    private getPositionMargin(symbol: string, size: number): PositionMargin | undefined {
+        const oraclePrice = this.markets.getOraclePrice(symbol);
+        if (oraclePrice === undefined) return undefined;
+
+        const notional = Math.abs(size) * oraclePrice;
+        const fractions = this.getMarginFractions(symbol, notional);
+        if (!fractions) return undefined;
+
+        const [initialMarginFraction, maintenanceMarginFraction] = fractions;
+        return {
+            symbol,
+            size,
+            oraclePrice,
+            notional,
+            initialMarginFraction,
+            maintenanceMarginFraction,
+            initialMarginRequirement: notional * initialMarginFraction,
+            maintenanceMarginRequirement: notional * maintenanceMarginFraction
+        };
+    }
+
+    /**
+     * Solves for the price P at which equity falls to the maintenance margin requirement:
+     * equity - size * oracle + size * P = mmrOthers + |size| * P * mmf.
+     * The maintenance margin fraction is held at its value for the current notional.
+     * @param position - The position margin.
+     * @param equity - The account equity at the oracle prices.
+     * @param maintenanceMarginRequirement - The maintenance margin requirement of the account.
+     * @returns The liquidation price, or undefined if it is not positive.
+     */
+    private calculateLiquidationPrice(position: PositionMargin, equity: number, maintenanceMarginRequirement: number): number | undefined {
+        const { size, oraclePrice, maintenanceMarginFraction } = position;
+        const mmrOthers = maintenanceMarginRequirement - position.maintenanceMarginRequirement;
+        const denominator = size - Math.abs(size) * maintenanceMarginFraction;
+        if (denominator === 0) return undefined;
+
+        const price = (mmrOthers - equity + size * oraclePrice) / denominator;
+        return price > 0 ? price : undefined;
+    }
+
+    /**
+     * Resets the account state.
+     */
+    public cleanupMargin(): void {
+        this.collateral = 0;
+        this.positions.clear();
+    }
+}
@@ -1,26 +1,44 @@
 // marketsHandler.ts
 import {
     InitMarketMessage,
+    MarketChannelData,
     MarketData,
+    MarketFilter,
     MarketsMessageType,
+    MarketState,
+    MarketStates,
+    MarketStatusCallback,
     MarketTradeData,
-    SubscriptionTypes
+    OraclePriceMarket,
+    PerpetualMarketStatus,
+    SubscriptionTypes,
+    TradingPerpetualMarketMessage
 } from "./constants"
+import {OracleHistory} from "./oracleHistory";
+import {Quantizer} from "./quantization";
+import {quantumsToSize, subticksToPrice} from "./utils";
 
 /**
- * Handles market data and updates for different symbols.
+ * Handles market data and updates for different symbols. The full universe of perpetual markets is kept from the
+ * snapshot, while trade data is only derived for the handled symbols, which can be changed at runtime.
  */
 export class MarketsHandler {
     private readonly symbols: string[];
     private readonly tradeData: MarketTradeData;
+    private readonly marketStates: MarketStates; // Every market of the snapshot, keyed by ticker
+    private readonly oracleHistory?: OracleHistory;
+    private onStatusChangeCallback: MarketStatusCallback | null = null;
 
     /**
      * Constructs a MarketsHandler instance.
      * @param symbols - Array of market symbols to be handled.
+     * @param oracleHistory - Optional history recording the oracle price updates of the handled symbols.
      */
-    constructor(symbols: string[]) {
-        this.symbols = symbols;
+    constructor(symbols: string[], oracleHistory?: OracleHistory) {
+        this.symbols = [...symbols]; // Copied, as symbols can be added and removed at runtime
         this.tradeData = {};
+        this.marketStates = {};
+        this.oracleHistory = oracleHistory;
         this.symbols.forEach(symbol => this.initializeTradeDataForSymbol(symbol));
     }
 
@@ -76,9 +94,7 @@ export class MarketsHandler {
                 break;
 
             case SubscriptionTypes.ChannelData:
-                if ('markets' in obj.contents) {
-                    console.log("Market data in channel data for market socket.\n", obj);
-                }
+                this.updateMarkets(obj);
                 break;
 
             default:
@@ -88,12 +104,127 @@ export class MarketsHandler {
         return this.tradeData;
     }
 
+    /**
+     * Sets a callback function to be called when the status of a market changes, e.g. from ACTIVE to POST_ONLY.
+     * @param callback - The callback function to execute with the symbol, the new and the previous status.
+     */
+    public onStatusChange(callback: MarketStatusCallback): void {
+        this.onStatusChangeCallback = callback;
+    }
+
+    /**
+     * Returns the current status of a market.
+     * @param symbol - The market symbol.
+     * @returns The market status, or undefined if no snapshot has been received for the symbol.
+     */
+    public getStatus(symbol: string): PerpetualMarketStatus | undefined {
+        return this.marketStates[symbol]?.status as PerpetualMarketStatus | undefined;
+    }
+
+    /**
+     * Returns the full market state of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The market state, or undefined if no snapshot has been received for the symbol.
+     */
+    public getMarket(symbol: string): MarketState | undefined {
+        return this.marketStates[symbol];
+    }
+
+    /**
+     * Returns a quantizer for the current tick and step size of a market.
+     * @param symbol - The market symbol.
+     * @returns The quantizer, or undefined if no snapshot has been received for the symbol.
+     */
+    public getQuantizer(symbol: string): Quantizer | undefined {
+        const state = this.marketStates[symbol];
+        return state ? new Quantizer(state) : undefined;
+    }
+
+    /**
+     * Returns the full market state of every market in the snapshot.
+     * @returns The market states keyed by symbol.
+     */
+    public getMarkets(): MarketStates {
+        return this.marketStates;
+    }
+
+    /**
+     * Returns the latest oracle price of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The oracle price, or undefined if no snapshot has been received for the symbol.
+     */
+    public getOraclePrice(symbol: string): number | undefined {
+        const state = this.marketStates[symbol];
+        return state ? parseFloat(state.oraclePrice) : undefined;
+    }
+
+    /**
+     * Returns the symbols of the markets in the snapshot that match a filter, e.g. to pick the symbols to trade.
+     * @param filter - The status, minimum 24h volume and minimum open interest to match. Matches every market by default.
+     * @returns The matching symbols, sorted by 24h volume descending.
+     */
+    public getUniverse(filter: MarketFilter = {}): string[] {
+        const statuses = filter.status === undefined ? undefined : ([] as PerpetualMarketStatus[]).concat(filter.status);
+
+        return Object.values(this.marketStates)
+            .filter(market => !statuses || statuses.includes(market.status as PerpetualMarketStatus))
+            .filter(market => filter.minVolume24H === undefined || parseFloat(market.volume24H) >= filter.minVolume24H)
+            .filter(market => filter.minOpenInterestUsd === undefined
+                || parseFloat(market.openInterest) * parseFloat(market.oraclePrice) >= filter.minOpenInterestUsd)
+            .sort((a, b) => parseFloat(b.volume24H) - parseFloat(a.volume24H))
+            .map(market => market.ticker);
+    }
+
+    /**
+     * Returns the handled symbols.
+     * @returns A copy of the handled symbols.
+     */
+    public getSymbols(): string[] {
+        return [...this.symbols];
+    }
+
+    /**
+     * Starts handling a symbol at runtime. Its trade data is derived right away if the market is in the snapshot.
+     * @param symbol - The market symbol to add.
+     */
+    public addSymbol(symbol: string): void {
+        if (this.symbols.includes(symbol)) return;
+
+        this.symbols.push(symbol);
+        this.initializeTradeDataForSymbol(symbol);
+        const symbolData = this.marketStates[symbol];
+        if (symbolData) {
+            this.updateTradeDataForSymbol(symbol, symbolData);
+        }
+    }
+
+    /**
+     * Stops handling a symbol at runtime. The market is kept in the universe.
+     * @param symbol - The market symbol to remove.
+     */
+    public removeSymbol(symbol: string): void {
+        const index = this.symbols.indexOf(symbol);
+        if (index === -1) return;
+
+        this.symbols.splice(index, 1);
+        delete this.tradeData[symbol];
+    }
+
     /**
      * Initializes market data from a market initialization message.
      * @param obj - The initialization message containing market data.
      */
     private initializeMarkets(obj: InitMarketMessage): void {
         const data = obj.contents.markets;
+
+        // Replace the universe, keeping the previous status to detect changes across resyncs
+        const previousStatuses = new Map(Object.keys(this.marketStates).map(ticker => [ticker, this.getStatus(ticker)]));
+        Object.keys(this.marketStates).forEach(ticker => delete this.marketStates[ticker]);
+        for (const [ticker, market] of Object.entries(data)) {
+            this.marketStates[ticker] = { ...market };
+            this.emitStatusChange(ticker, previousStatuses.get(ticker));
+        }
+
         for (const symbol of this.symbols) {
             const symbolData = data[symbol];
             if (symbolData) {
@@ -105,10 +236,120 @@ export class MarketsHandler {
         }
     }
 
+    /**
+     * Merges trading updates and oracle prices from a market channel data message into the market state.
+     * @param obj - The market channel data message.
+     */
+    private updateMarkets(obj: MarketChannelData): void {
+        const { trading, oraclePrices } = obj.contents;
+
+        if (trading) {
+            for (const [symbol, update] of Object.entries(trading)) {
+                this.applyTradingUpdate(symbol, update);
+            }
+        }
+
+        if (oraclePrices) {
+            for (const [symbol, oracle] of Object.entries(oraclePrices)) {
+                this.applyOraclePrice(symbol, oracle);
+            }
+        }
+    }
+
+    /**
+     * Creates the market state of a market listed after the snapshot. Fields missing from the update are left at zero
+     * until later updates fill them in.
+     * @param symbol - The market symbol.
+     * @param update - The trading update announcing the market.
+     * @returns The new market state, or undefined if the update does not carry the full market fields.
+     */
+    private createMarketState(symbol: string, update: TradingPerpetualMarketMessage): MarketState | undefined {
+        const { ticker, clobPairId, status, atomicResolution, quantumConversionExponent, subticksPerTick, stepBaseQuantums } = update;
+        if (ticker === undefined || clobPairId === undefined || status === undefined || atomicResolution === undefined
+            || quantumConversionExponent === undefined || subticksPerTick === undefined || stepBaseQuantums === undefined) {
+            return undefined;
+        }
+
+        const state: MarketState = {
+            clobPairId, ticker, status, atomicResolution, quantumConversionExponent, subticksPerTick, stepBaseQuantums,
+            lastPrice: '0', oraclePrice: '0', priceChange24H: '0', volume24H: '0', trades24H: '0', nextFundingRate: '0',
+            initialMarginFraction: '0', maintenanceMarginFraction: '0', basePositionNotional: '0', openInterest: '0',
+            tickSize: '0', stepSize: '0'
+        };
+        this.marketStates[symbol] = state;
+        return state;
+    }
+
+    /**
+     * Merges a partial trading update into the market state of a symbol. Tick and step sizes are
+     * derived again from the raw quantum fields when those change, as the indexer only sends them in snapshots.
+     * A market listed after the snapshot is added once an update carries its full market fields.
+     * @param symbol - The market symbol.
+     * @param update - The fields of the market that changed.
+     */
+    private applyTradingUpdate(symbol: string, update: TradingPerpetualMarketMessage): void {
+        const previous = this.getStatus(symbol);
+        const state = this.marketStates[symbol] ?? this.createMarketState(symbol, update);
+        if (!state) return;
+
+        const { id, trades24H, ...fields } = update;
+        Object.assign(state, fields);
+        if (trades24H !== undefined) {
+            state.trades24H = String(trades24H);
+        }
+
+        if (update.subticksPerTick !== undefined || update.atomicResolution !== undefined
+            || update.quantumConversionExponent !== undefined) {
+            state.tickSize = subticksToPrice(state.subticksPerTick, state.atomicResolution, state.quantumConversionExponent);
+        }
+        if (update.stepBaseQuantums !== undefined || update.atomicResolution !== undefined) {
+            state.stepSize = quantumsToSize(state.stepBaseQuantums, state.atomicResolution);
+        }
+
+        if (this.symbols.includes(symbol)) {
+            this.updateTradeDataForSymbol(symbol, state);
+        }
+        this.emitStatusChange(symbol, previous);
+    }
+
+    /**
+     * Invokes the status change callback if the status of a handled market differs from its previous status.
+     * Nothing is emitted for the first snapshot of a market.
+     * @param symbol - The market symbol.
+     * @param previous - The status before the update.
+     */
+    private emitStatusChange(symbol: string, previous: PerpetualMarketStatus | undefined): void {
+        const status = this.getStatus(symbol);
+        if (!this.symbols.includes(symbol) || !previous || !status || status === previous) return;
+
+        if (this.onStatusChangeCallback) {
+            this.onStatusChangeCallback(symbol, status, previous);
+        }
+    }
+
+    /**
+     * Updates the oracle price of a symbol and records it in the oracle history.
+     * @param symbol - The market symbol.
+     * @param oracle - The new oracle price.
+     */
+    private applyOraclePrice(symbol: string, oracle: OraclePriceMarket): void {
+        const state = this.marketStates[symbol];
+        if (!state) return;
+
+        state.oraclePrice = oracle.price;
+        state.oraclePriceEffectiveAt = oracle.effectiveAt;
+        state.oraclePriceEffectiveAtHeight = oracle.effectiveAtHeight;
+
+        if (this.oracleHistory && this.symbols.includes(symbol)) {
+            this.oracleHistory.record(symbol, parseFloat(oracle.price), oracle.effectiveAt, oracle.effectiveAtHeight);
+        }
+    }
+
     /**
      * Resets the market data to its initial state.
      */
     public cleanupMarkets(): void {
         this.symbols.forEach(symbol => this.initializeTradeDataForSymbol(symbol));
+        Object.keys(this.marketStates).forEach(ticker => delete this.marketStates[ticker]);
     }
 }
\ No newline at end of file
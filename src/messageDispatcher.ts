@@ -0,0 +1,157 @@
+// messageDispatcher.ts
+import {
+    AllObjectTypes,
+    AnyId,
+    ChannelHandler,
+    ChannelHandlerRegistry,
+    ChannelMessageMap,
+    ErrorMessageCallback,
+    ErrorSocketMessage,
+    SubscriptionTypes,
+    UnknownChannelCallback
+} from "./constants";
+
+/**
+ * Routes frames received by the SocketHandler to the handlers registered for their channel and id.
+ */
+export class MessageDispatcher {
+    private readonly handlers: ChannelHandlerRegistry = {};
+    private onErrorCallback: ErrorMessageCallback | null = null;
+    private onUnknownChannelCallback: UnknownChannelCallback | null = null;
+
+    /**
+     * Registers a handler for a channel, optionally restricted to a single id (e.g. a symbol or subaccount).
+     * Example Usage:
+     * dispatcher.register(ChannelTypes.Orderbook, obj => orderbookHandler.handler(obj));
+     * dispatcher.register(ChannelTypes.Subaccounts, obj => accountHandlerA.handler(obj), subAccountA);
+     *
+     * @param channel - The channel to receive frames from.
+     * @param handler - The function called with each frame of the channel.
+     * @param id - The id to receive frames for. All ids of the channel by default.
+     */
+    public register<C extends keyof ChannelMessageMap>(channel: C, handler: ChannelHandler<ChannelMessageMap[C]>, id: string = AnyId): void {
+        let channelHandlers = this.handlers[channel];
+        if (!channelHandlers) {
+            channelHandlers = new Map();
+            this.handlers[channel] = channelHandlers;
+        }
+
+        if (!channelHandlers.has(id)) {
+            channelHandlers.set(id, []);
+        }
+        channelHandlers.get(id)!.push(handler);
+    }
+
+    /**
+     * Removes a handler previously registered for a channel and id.
+     * @param channel - The channel the handler was registered for.
+     * @param handler - The handler to remove.
+     * @param id - The id the handler was registered for.
+     */
+    public unregister<C extends keyof ChannelMessageMap>(channel: C, handler: ChannelHandler<ChannelMessageMap[C]>, id: string = AnyId): void {
+        const idHandlers = this.handlers[channel]?.get(id);
+        if (!idHandlers) return;
+
+        const index = idHandlers.indexOf(handler);
+        if (index !== -1) {
+            idHandlers.splice(index, 1);
+        }
+    }
+
+    /**
+     * Sets a callback function to be called with every 'error' frame.
+     * @param callback - The callback function to execute on error frames.
+     */
+    public onError(callback: ErrorMessageCallback): void {
+        this.onErrorCallback = callback;
+    }
+
+    /**
+     * Sets a callback function to be called with frames that no handler is registered for.
+     * @param callback - The callback function to execute on unknown channels.
+     */
+    public onUnknownChannel(callback: UnknownChannelCallback): void {
+        this.onUnknownChannelCallback = callback;
+    }
+
+    /**
+     * Routes a frame to the handlers registered for its channel and id.
+     * Pass this method as the SocketHandler callback, e.g. new SocketHandler(subscriptions, dispatcher.dispatch.bind(dispatcher)).
+     * @param obj - The frame received from the WebSocket.
+     */
+    public dispatch(obj: AllObjectTypes): void {
+        if (obj.type === SubscriptionTypes.Error) {
+            this.handleError(obj);
+            return;
+        }
+
+        // Frames without a channel (e.g. 'connected') are not routed
+        if (!("channel" in obj)) return;
+
+        const id = "id" in obj ? obj.id : undefined;
+        if (!this.route(obj.channel, obj, id)) {
+            this.handleUnknownChannel(obj);
+        }
+    }
+
+    /**
+     * Passes a frame to the handlers registered for its channel and id.
+     * @param channel - The channel of the frame.
+     * @param obj - The frame, typed by its channel.
+     * @param id - The id of the frame, if any.
+     * @returns True if at least one handler received the frame.
+     */
+    private route<C extends keyof ChannelMessageMap>(channel: C, obj: ChannelMessageMap[C], id?: string): boolean {
+        const channelHandlers = this.handlers[channel];
+        const handlers = [
+            ...(channelHandlers?.get(AnyId) ?? []),
+            ...(id !== undefined ? channelHandlers?.get(id) ?? [] : [])
+        ];
+
+        for (const handler of handlers) {
+            this.invoke(handler, obj, channel);
+        }
+        return handlers.length > 0;
+    }
+
+    /**
+     * Invokes a handler and logs any error it throws or rejects with.
+     * @param handler - The handler to invoke.
+     * @param obj - The frame passed to the handler.
+     * @param channel - The channel of the frame, used for logging.
+     */
+    private invoke<T>(handler: ChannelHandler<T>, obj: T, channel: string): void {
+        try {
+            const result = handler(obj);
+            if (result instanceof Promise) {
+                result.catch(err => console.error(`Error in ${channel} handler:`, err));
+            }
+        } catch (error) {
+            console.error(`Error in ${channel} handler:`, error);
+        }
+    }
+
+    /**
+     * Passes an error frame to the error callback, or logs it if the callback is not set.
+     * @param obj - The error frame.
+     */
+    private handleError(obj: ErrorSocketMessage): void {
+        if (this.onErrorCallback) {
+            this.onErrorCallback(obj);
+        } else {
+            console.error("WebSocket error message:", obj.message);
+        }
+    }
+
+    /**
+     * Passes a frame without a registered handler to the unknown channel callback, or logs it if the callback is not set.
+     * @param obj - The unrouted frame.
+     */
+    private handleUnknownChannel(obj: AllObjectTypes): void {
+        if (this.onUnknownChannelCallback) {
+            this.onUnknownChannelCallback(obj);
+        } else {
+            console.warn("No handler registered for message:", obj);
+        }
+    }
+}
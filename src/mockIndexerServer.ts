@@ -0,0 +1,338 @@
+// mockIndexerServer.ts
+import WebSocket, { WebSocketServer } from "ws";
+import {
+    ChannelDataContents,
+    ChannelTypes,
+    customNetworkProfile,
+    InitAccountMessageContents,
+    InitOrderbookMessageContents,
+    MarketData,
+    MarketMessageContents,
+    NetworkProfile,
+    Subscription,
+    SubscriptionActions,
+    SubscriptionTypes,
+    UpdateOrderbookMessageContents,
+    WebSocketEvent
+} from "./constants";
+
+/**
+ * State kept for each client connected to the mock server.
+ */
+interface MockConnection {
+    connectionId: string;
+    messageId: number;
+    subscriptions: Map<string, Subscription>;
+}
+
+/**
+ * An in-process stand-in for the dYdX v4 indexer WebSocket, used to test the SocketHandler and the data handlers
+ * without a network connection. Snapshots and updates are scripted by the test, and disconnects, message-id gaps
+ * and malformed frames can be injected.
+ */
+export class MockIndexerServer {
+    private readonly port: number;
+    private server: WebSocketServer | null = null;
+    private readonly connections: Map<WebSocket, MockConnection> = new Map();
+    private readonly snapshots: Map<string, object> = new Map(); // Snapshot contents per subscription key
+    private readonly received: object[] = [];
+    private connectionCount = 0;
+
+    /**
+     * Constructs a MockIndexerServer instance.
+     * @param port - The port to listen on. A free port is picked by default.
+     */
+    constructor(port: number = 0) {
+        this.port = port;
+    }
+
+    /**
+     * Builds the key used to identify a subscription, matching the SocketHandler.
+     * @param channel - The channel of the subscription.
+     * @param id - The id of the subscription, if any.
+     * @returns The channel and id joined into a single key.
+     */
+    private subscriptionKey(channel: string, id?: string): string {
+        return id ? `${channel}/${id}` : channel;
+    }
+
+    /**
+     * Starts listening for connections.
+     * @returns A promise that resolves to the WebSocket URL of the server.
+     */
+    public start(): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const server = new WebSocketServer({ port: this.port });
+            server.on('listening', () => resolve(this.getUrl()));
+            server.on(WebSocketEvent.Error, reject);
+            server.on('connection', (ws: WebSocket) => this.handleConnection(ws));
+            this.server = server;
+        });
+    }
+
+    /**
+     * Closes every connection and stops the server.
+     */
+    public stop(): Promise<void> {
+        return new Promise<void>(resolve => {
+            this.connections.forEach((_, ws) => ws.terminate());
+            this.connections.clear();
+            if (!this.server) return resolve();
+
+            this.server.close(() => resolve());
+            this.server = null;
+        });
+    }
+
+    /**
+     * Returns the WebSocket URL of the running server.
+     * @returns The WebSocket URL.
+     */
+    public getUrl(): string {
+        const address = this.server?.address();
+        if (!address || typeof address === 'string') {
+            throw new Error("Mock indexer server is not running");
+        }
+        return `ws://localhost:${address.port}/v4/ws`;
+    }
+
+    /**
+     * Returns a network profile pointing the SocketHandler at this server.
+     * @returns The network profile of the mock server.
+     */
+    public getNetworkProfile(): NetworkProfile {
+        return customNetworkProfile("mock", "http://localhost/", this.getUrl(), "http://localhost/", "mock-1");
+    }
+
+    /**
+     * Returns every message the server received from its clients, in order.
+     * @returns The received subscribe and unsubscribe messages.
+     */
+    public getReceivedMessages(): object[] {
+        return [...this.received];
+    }
+
+    /**
+     * Returns the number of open client connections.
+     * @returns The number of connections.
+     */
+    public getConnectionCount(): number {
+        return this.connections.size;
+    }
+
+    /**
+     * Registers a new client and greets it with the 'connected' frame.
+     * @param ws - The client WebSocket.
+     */
+    private handleConnection(ws: WebSocket): void {
+        const connection: MockConnection = {
+            connectionId: `mock-connection-${++this.connectionCount}`,
+            messageId: 0,
+            subscriptions: new Map()
+        };
+        this.connections.set(ws, connection);
+
+        ws.on(WebSocketEvent.Message, (data: WebSocket.Data) => this.handleClientMessage(ws, connection, data));
+        ws.on(WebSocketEvent.Close, () => this.connections.delete(ws));
+
+        this.send(ws, connection, { type: SubscriptionTypes.Connected });
+    }
+
+    /**
+     * Answers subscribe messages with the scripted snapshot and unsubscribe messages with an acknowledgement.
+     * @param ws - The client WebSocket.
+     * @param connection - The state of the client connection.
+     * @param data - The raw message received from the client.
+     */
+    private handleClientMessage(ws: WebSocket, connection: MockConnection, data: WebSocket.Data): void {
+        let message: Subscription;
+        try {
+            message = JSON.parse(data.toString());
+        } catch (error) {
+            this.send(ws, connection, { type: SubscriptionTypes.Error, message: `Invalid message: ${data.toString()}` });
+            return;
+        }
+        this.received.push(message);
+
+        const { channel, id } = message;
+        const key = this.subscriptionKey(channel, id);
+
+        switch (message.type) {
+            case SubscriptionActions.Subscribe:
+                connection.subscriptions.set(key, message);
+                this.send(ws, connection, {
+                    type: SubscriptionTypes.Subscribed,
+                    channel,
+                    id,
+                    contents: this.snapshots.get(key) ?? this.defaultSnapshot(channel)
+                });
+                break;
+
+            case SubscriptionActions.Unsubscribe:
+                connection.subscriptions.delete(key);
+                this.send(ws, connection, { type: SubscriptionTypes.Unsubscribed, channel, id });
+                break;
+
+            default:
+                this.send(ws, connection, { type: SubscriptionTypes.Error, message: `Invalid message type: ${message.type}` });
+        }
+    }
+
+    /**
+     * Returns the snapshot sent for a channel that has no scripted snapshot.
+     * @param channel - The channel being subscribed to.
+     * @returns Empty snapshot contents for the channel.
+     */
+    private defaultSnapshot(channel: string): object {
+        switch (channel) {
+            case ChannelTypes.Markets:
+                return { markets: {} };
+            case ChannelTypes.Orderbook:
+                return { bids: [], asks: [] };
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * Sends a frame to a client, stamping it with the connection id and the next message id.
+     * @param ws - The client WebSocket.
+     * @param connection - The state of the client connection.
+     * @param frame - The frame to send.
+     */
+    private send(ws: WebSocket, connection: MockConnection, frame: object): void {
+        if (ws.readyState !== WebSocket.OPEN) return;
+
+        ws.send(JSON.stringify({
+            ...frame,
+            connection_id: connection.connectionId,
+            message_id: connection.messageId++
+        }));
+    }
+
+    /**
+     * Sets the snapshot sent to clients subscribing to a channel and id.
+     * @param channel - The channel of the snapshot.
+     * @param id - The id of the snapshot, if the channel uses ids.
+     * @param contents - The snapshot contents.
+     */
+    public setSnapshot(channel: string, id: string | undefined, contents: object): void {
+        this.snapshots.set(this.subscriptionKey(channel, id), contents);
+    }
+
+    /**
+     * Sets the v4_markets snapshot.
+     * @param markets - The market data per ticker.
+     */
+    public setMarketsSnapshot(markets: { [ticker: string]: MarketData }): void {
+        this.setSnapshot(ChannelTypes.Markets, undefined, { markets });
+    }
+
+    /**
+     * Sets the v4_orderbook snapshot of a symbol.
+     * @param symbol - The market symbol.
+     * @param contents - The bids and asks of the snapshot.
+     */
+    public setOrderbookSnapshot(symbol: string, contents: InitOrderbookMessageContents): void {
+        this.setSnapshot(ChannelTypes.Orderbook, symbol, contents);
+    }
+
+    /**
+     * Sets the v4_subaccounts snapshot of a subaccount.
+     * @param id - The subaccount id, e.g. "dydx.../0".
+     * @param contents - The subaccount and orders of the snapshot.
+     */
+    public setSubaccountSnapshot(id: string, contents: InitAccountMessageContents): void {
+        this.setSnapshot(ChannelTypes.Subaccounts, id, contents);
+    }
+
+    /**
+     * Sends channel data to every client subscribed to a channel and id. Batched subscriptions receive
+     * the contents as a single-entry 'channel_batch_data' frame.
+     * @param channel - The channel of the update.
+     * @param id - The id of the update, if the channel uses ids.
+     * @param contents - The update contents.
+     */
+    public publish(channel: string, id: string | undefined, contents: object): void {
+        const key = this.subscriptionKey(channel, id);
+
+        this.connections.forEach((connection, ws) => {
+            const subscription = connection.subscriptions.get(key);
+            if (!subscription) return;
+
+            this.send(ws, connection, subscription.batched ? {
+                type: SubscriptionTypes.ChannelBatchData,
+                channel,
+                id,
+                version: "1.0.0",
+                contents: [contents]
+            } : {
+                type: SubscriptionTypes.ChannelData,
+                channel,
+                id,
+                version: "1.0.0",
+                contents
+            });
+        });
+    }
+
+    /**
+     * Sends a v4_markets update.
+     * @param contents - The trading and oracle price updates.
+     */
+    public publishMarkets(contents: MarketMessageContents): void {
+        this.publish(ChannelTypes.Markets, undefined, contents);
+    }
+
+    /**
+     * Sends a v4_orderbook update for a symbol.
+     * @param symbol - The market symbol.
+     * @param contents - The updated bid and ask levels.
+     */
+    public publishOrderbook(symbol: string, contents: UpdateOrderbookMessageContents): void {
+        this.publish(ChannelTypes.Orderbook, symbol, contents);
+    }
+
+    /**
+     * Sends a v4_subaccounts update for a subaccount.
+     * @param id - The subaccount id, e.g. "dydx.../0".
+     * @param contents - The updated orders, fills and positions.
+     */
+    public publishSubaccount(id: string, contents: ChannelDataContents): void {
+        this.publish(ChannelTypes.Subaccounts, id, contents);
+    }
+
+    /**
+     * Skips message ids on every connection, so the next frame reveals a gap.
+     * @param count - The number of message ids to skip.
+     */
+    public skipMessageIds(count: number = 1): void {
+        this.connections.forEach(connection => connection.messageId += count);
+    }
+
+    /**
+     * Sends a raw, unstamped frame to every client, e.g. a malformed message.
+     * @param data - The raw frame to send.
+     */
+    public sendRaw(data: string): void {
+        this.connections.forEach((_, ws) => {
+            if (ws.readyState === WebSocket.OPEN) ws.send(data);
+        });
+    }
+
+    /**
+     * Sends an 'error' frame to every client.
+     * @param message - The error message.
+     */
+    public sendError(message: string): void {
+        this.connections.forEach((connection, ws) => this.send(ws, connection, { type: SubscriptionTypes.Error, message }));
+    }
+
+    /**
+     * Drops every client connection without a close handshake.
+     */
+    public disconnectAll(): void {
+        this.connections.forEach((_, ws) => ws.terminate());
+        this.connections.clear();
+    }
+}
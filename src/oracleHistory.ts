@@ -0,0 +1,136 @@
+// oracleHistory.ts
+import {OracleBasis, OraclePoint, oneYear, Settings} from "./constants";
+
+/**
+ * Keeps a bounded history of oracle prices per symbol, recorded by the MarketsHandler, and derives returns,
+ * realized volatility and the basis of the orderbook mid against the oracle price from it.
+ */
+export class OracleHistory {
+    private readonly maxLength: number;
+    private readonly history: Map<string, OraclePoint[]> = new Map(); // Newest first
+
+    /**
+     * Constructs an OracleHistory instance.
+     * @param maxLength - Maximum number of oracle prices kept per symbol.
+     */
+    constructor(maxLength: number = Settings.OracleHistoryLength) {
+        this.maxLength = maxLength;
+    }
+
+    /**
+     * Records an oracle price. A price at the same height as the latest one replaces it, and older prices are ignored.
+     * @param symbol - The market symbol.
+     * @param price - The oracle price.
+     * @param effectiveAt - The ISO time the price became effective.
+     * @param effectiveAtHeight - The block height the price became effective.
+     */
+    public record(symbol: string, price: number, effectiveAt: string, effectiveAtHeight: string | number): void {
+        const point: OraclePoint = {
+            price,
+            effectiveAt: new Date(effectiveAt).getTime(),
+            effectiveAtHeight: Number(effectiveAtHeight)
+        };
+
+        let points = this.history.get(symbol);
+        if (!points) {
+            points = [];
+            this.history.set(symbol, points);
+        }
+
+        const latest = points[0];
+        if (latest && point.effectiveAtHeight < latest.effectiveAtHeight) return;
+        if (latest && point.effectiveAtHeight === latest.effectiveAtHeight) {
+            points[0] = point;
+            return;
+        }
+
+        points.unshift(point);
+        if (points.length > this.maxLength) {
+            points.length = this.maxLength;
+        }
+    }
+
+    /**
+     * Returns the oracle price history of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The recorded oracle prices, newest first.
+     */
+    public getHistory(symbol: string): OraclePoint[] {
+        return this.history.get(symbol) ?? [];
+    }
+
+    /**
+     * Returns the latest recorded oracle price of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The latest oracle price, or undefined if none was recorded.
+     */
+    public getLatest(symbol: string): number | undefined {
+        return this.history.get(symbol)?.[0]?.price;
+    }
+
+    /**
+     * Returns the simple return of the oracle price over a window ending at the latest price.
+     * @param symbol - The market symbol.
+     * @param windowMs - The length of the window in milliseconds.
+     * @returns The return, e.g. 0.01 for +1%, or undefined if the history does not cover the window.
+     */
+    public getReturn(symbol: string, windowMs: number): number | undefined {
+        const points = this.getHistory(symbol);
+        if (points.length < 2) return undefined;
+
+        const start = points[0].effectiveAt - windowMs;
+        const base = points.find(point => point.effectiveAt <= start);
+        if (!base) return undefined;
+
+        return points[0].price / base.price - 1;
+    }
+
+    /**
+     * Returns the realized volatility of the oracle price over a window ending at the latest price. Squared log returns
+     * are summed over the window and scaled by its elapsed time, so irregularly spaced updates are weighted correctly.
+     * @param symbol - The market symbol.
+     * @param windowMs - The length of the window in milliseconds.
+     * @param periodMs - The period the volatility is expressed over, annualized by default.
+     * @returns The realized volatility, or undefined if the window holds fewer than two prices.
+     */
+    public getRealizedVolatility(symbol: string, windowMs: number, periodMs: number = oneYear): number | undefined {
+        const points = this.getHistory(symbol);
+        if (points.length < 2) return undefined;
+
+        const start = points[0].effectiveAt - windowMs;
+        let sumSquares = 0;
+        let oldest = points[0];
+
+        for (let i = 1; i < points.length && points[i].effectiveAt >= start; i++) {
+            const logReturn = Math.log(points[i - 1].price / points[i].price);
+            sumSquares += logReturn * logReturn;
+            oldest = points[i];
+        }
+
+        const elapsed = points[0].effectiveAt - oldest.effectiveAt;
+        if (elapsed <= 0) return undefined;
+
+        return Math.sqrt(sumSquares / elapsed * periodMs);
+    }
+
+    /**
+     * Returns the basis of the orderbook mid against the latest oracle price.
+     * @param symbol - The market symbol.
+     * @param mid - The orderbook mid price.
+     * @returns The basis, or undefined if no oracle price was recorded.
+     */
+    public getBasis(symbol: string, mid: number): OracleBasis | undefined {
+        const oraclePrice = this.getLatest(symbol);
+        if (oraclePrice === undefined || oraclePrice === 0) return undefined;
+
+        const basis = mid - oraclePrice;
+        return { oraclePrice, mid, basis, basisBps: basis / oraclePrice * 10000 };
+    }
+
+    /**
+     * Clears the history of every symbol.
+     */
+    public cleanupHistory(): void {
+        this.history.clear();
+    }
+}
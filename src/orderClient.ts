@@ -10,15 +10,25 @@ import {
     ValidatorClient,
     Order_TimeInForce
 } from "@dydxprotocol/v4-client-js";
+import {BlockHeightHandler} from "./blockHeightHandler";
+import {OrderRejectedCallback, PerpetualMarketStatus, Settings} from "./constants";
+import {MarketStatusError} from "./errors";
+import {MarketsHandler} from "./marketsHandler";
 
 /**
  * This class provides methods to interact with the DYDX Protocol, enabling the placement and cancellation of various order types.
  * All asynchronous calls are purposely not being awaited to avoid any blocking in the rest of the file.
+ * For the same reason the placement methods never reject: an order rejected before it reaches the chain (because its
+ * market does not accept new orders or its size rounds below the minimum) is passed to the onOrderRejected callback,
+ * or logged if it is not set.
  */
 export class Orders {
     private composite: CompositeClient;
     private subaccount: SubaccountClient;
     private validator: ValidatorClient;
+    private blockHeight?: BlockHeightHandler;
+    private markets?: MarketsHandler;
+    private onOrderRejectedCallback: OrderRejectedCallback | null = null;
 
     /**
      * Constructs an Orders instance.
@@ -26,11 +36,69 @@ export class Orders {
      * @param compositeClient - The CompositeClient instance for interacting with the DYDX Protocol.
      * @param subAccount - The SubaccountClient instance for account-specific actions.
      * @param validatorClient - The ValidatorClient instance for validation purposes.
+     * @param blockHeight - Optional shared height tracker fed by the v4_block_height channel.
+     * @param markets - Optional MarketsHandler used to check market status and quantize orders before placing them.
      */
-    constructor(compositeClient: CompositeClient, subAccount: SubaccountClient, validatorClient: ValidatorClient) {
+    constructor(
+        compositeClient: CompositeClient,
+        subAccount: SubaccountClient,
+        validatorClient: ValidatorClient,
+        blockHeight?: BlockHeightHandler,
+        markets?: MarketsHandler
+    ) {
         this.composite = compositeClient;
         this.subaccount = subAccount;
         this.validator = validatorClient;
+        this.blockHeight = blockHeight;
+        this.markets = markets;
+    }
+
+    /**
+     * Sets a callback function to be called with the error of every order rejected before it reaches the chain,
+     * a MarketStatusError or an OrderSizeError.
+     * @param callback - The callback function to execute on rejected orders.
+     */
+    public onOrderRejected(callback: OrderRejectedCallback): void {
+        this.onOrderRejectedCallback = callback;
+    }
+
+    /**
+     * Passes the error of a rejected order to the rejection callback, or logs it if the callback is not set.
+     * @param error - The reason the order was rejected.
+     */
+    private rejectOrder(error: Error): void {
+        if (this.onOrderRejectedCallback) {
+            this.onOrderRejectedCallback(error);
+        } else {
+            console.error(error.message);
+        }
+    }
+
+    /**
+     * Checks the current market status before placing a new order. PAUSED and CANCEL_ONLY markets reject every
+     * new order and POST_ONLY markets only accept post-only orders. Orders are let through when the status is unknown.
+     * A rejected order is reported with a MarketStatusError.
+     * @param symbol - The symbol for the order.
+     * @param postOnly - Whether the order is post-only.
+     * @returns True if the market status allows the order.
+     */
+    private checkMarketStatus(symbol: string, postOnly: boolean): boolean {
+        const status = this.markets?.getStatus(symbol);
+
+        switch (status) {
+            case PerpetualMarketStatus.PAUSED:
+            case PerpetualMarketStatus.CANCEL_ONLY:
+                this.rejectOrder(new MarketStatusError(symbol, status));
+                return false;
+
+            case PerpetualMarketStatus.POST_ONLY:
+                if (!postOnly) {
+                    this.rejectOrder(new MarketStatusError(symbol, status));
+                    return false;
+                }
+                break;
+        }
+        return true;
     }
 
     /**
@@ -51,11 +119,17 @@ export class Orders {
 
     /**
      * Calculates the 'good until' block height for short-term orders.
+     * Uses the streamed block height when it is fresh and falls back to querying the validator otherwise.
      * @returns A Promise that resolves to the block height.
      */
     private async calculateGoodTilBlock(): Promise<number> {
+        const height = this.blockHeight?.getHeight();
+        if (height !== undefined) {
+            return height + Settings.GoodTilBlockOffset;
+        }
+
         return this.validator.get.latestBlockHeight()
-            .then(height => height + 20)
+            .then(height => height + Settings.GoodTilBlockOffset)
             .catch(err => {
                 console.error("Error fetching block height:", err);
                 throw err; // Rethrow to handle it in the calling function
@@ -63,6 +137,30 @@ export class Orders {
 
     }
 
+    /**
+     * Rounds the price to the tick size and the size to the step size of the market. Values are passed through
+     * unchanged when no MarketsHandler is set or the market has no data yet. An order whose size rounds below the
+     * minimum order size is reported with an OrderSizeError, and one whose values cannot be rounded exactly with
+     * a RangeError.
+     * @param symbol - The symbol for the order.
+     * @param side - The side of the order (buy or sell).
+     * @param price - The price for the order.
+     * @param size - The size of the order.
+     * @param aggressive - Whether the order takes liquidity.
+     * @returns The quantized price and size, or null if the order was rejected.
+     */
+    private quantize(symbol: string, side: OrderSide, price: number, size: number, aggressive: boolean): [number, number] | null {
+        const quantizer = this.markets?.getQuantizer(symbol);
+        if (!quantizer) return [price, size];
+
+        try {
+            return [quantizer.roundPrice(price, side, aggressive), quantizer.roundSize(size)];
+        } catch (error) {
+            this.rejectOrder(error as Error);
+            return null;
+        }
+    }
+
     /**
      * Places a limit order. (Short Term)
      * @param symbol - The symbol for the order.
@@ -78,6 +176,10 @@ export class Orders {
         size: number
     ): Promise<void>
     {
+        if (!this.checkMarketStatus(symbol, true)) return;
+        const quantized = this.quantize(symbol, side, price, size, false);
+        if (!quantized) return;
+        [price, size] = quantized;
         const clientId: number = this.getRandomNumber();
         const reduceOnly: boolean = false;
 
@@ -113,6 +215,10 @@ export class Orders {
         size: number
     ): Promise<void>
     {
+        if (!this.checkMarketStatus(symbol, false)) return;
+        const quantized = this.quantize(symbol, side, price, size, true);
+        if (!quantized) return;
+        [price, size] = quantized;
         const clientId: number = this.getRandomNumber();
         const reduceOnly: boolean = false;
 
@@ -150,6 +256,10 @@ export class Orders {
         goodTilTime: number
     ): Promise<void>
     {
+        if (!this.checkMarketStatus(symbol, true)) return;
+        const quantized = this.quantize(symbol, side, price, size, false);
+        if (!quantized) return;
+        [price, size] = quantized;
         const clientId: number = this.getRandomNumber();
         const type: OrderType = OrderType.LIMIT;
         const timeInForce: OrderTimeInForce = OrderTimeInForce.GTT;
@@ -0,0 +1,182 @@
+// orderbookAnalytics.ts
+import {OrderSide} from "@dydxprotocol/v4-client-js";
+import {BookSide, FillEstimate, OrderbookSpread, PriceLevel, Settings} from "./constants";
+import {MarketsHandler} from "./marketsHandler";
+import {OrderbookHandler} from "./orderbookHandler";
+
+/**
+ * Derives metrics from the full-depth order book of the OrderbookHandler: best prices, mid, spread, microprice,
+ * imbalance, cumulative depth, and the VWAP and slippage of filling a size on either side.
+ */
+export class OrderbookAnalytics {
+    private readonly orderbook: OrderbookHandler;
+    private readonly markets?: MarketsHandler;
+
+    /**
+     * Constructs an OrderbookAnalytics instance.
+     * @param orderbook - The OrderbookHandler holding the books.
+     * @param markets - Optional MarketsHandler providing tick sizes, needed for the spread in ticks.
+     */
+    constructor(orderbook: OrderbookHandler, markets?: MarketsHandler) {
+        this.orderbook = orderbook;
+        this.markets = markets;
+    }
+
+    /**
+     * Returns the best bid of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The best bid, or undefined if the side is empty.
+     */
+    public getBestBid(symbol: string): PriceLevel | undefined {
+        return this.orderbook.getLevels(symbol, BookSide.BIDS).next().value ?? undefined;
+    }
+
+    /**
+     * Returns the best ask of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The best ask, or undefined if the side is empty.
+     */
+    public getBestAsk(symbol: string): PriceLevel | undefined {
+        return this.orderbook.getLevels(symbol, BookSide.ASKS).next().value ?? undefined;
+    }
+
+    /**
+     * Returns the mid price of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The mid price, or undefined if either side is empty.
+     */
+    public getMid(symbol: string): number | undefined {
+        const bid = this.getBestBid(symbol);
+        const ask = this.getBestAsk(symbol);
+        if (!bid || !ask) return undefined;
+
+        return (bid.price + ask.price) / 2;
+    }
+
+    /**
+     * Returns the spread of a symbol in price, ticks and basis points of the mid.
+     * @param symbol - The market symbol.
+     * @returns The spread, or undefined if either side is empty.
+     */
+    public getSpread(symbol: string): OrderbookSpread | undefined {
+        const bid = this.getBestBid(symbol);
+        const ask = this.getBestAsk(symbol);
+        if (!bid || !ask) return undefined;
+
+        const absolute = ask.price - bid.price;
+        const mid = (bid.price + ask.price) / 2;
+        const tickSize = parseFloat(this.markets?.getMarket(symbol)?.tickSize ?? '');
+
+        return {
+            absolute,
+            ticks: tickSize > 0 ? Math.round(absolute / tickSize) : undefined,
+            bps: absolute / mid * 10000
+        };
+    }
+
+    /**
+     * Returns the microprice of a symbol: the mid weighted towards the side with less size at the touch,
+     * where the price is more likely to move.
+     * @param symbol - The market symbol.
+     * @returns The microprice, or undefined if either side is empty.
+     */
+    public getMicroprice(symbol: string): number | undefined {
+        const bid = this.getBestBid(symbol);
+        const ask = this.getBestAsk(symbol);
+        if (!bid || !ask) return undefined;
+
+        return (bid.price * ask.size + ask.price * bid.size) / (bid.size + ask.size);
+    }
+
+    /**
+     * Returns the size imbalance between the top levels of both sides.
+     * @param symbol - The market symbol.
+     * @param levels - The number of levels per side to include.
+     * @returns The imbalance from -1 (only asks) to 1 (only bids), or undefined if both sides are empty.
+     */
+    public getImbalance(symbol: string, levels: number = Settings.ImbalanceLevels): number | undefined {
+        const bidSize = this.sumSizes(this.orderbook.getLevels(symbol, BookSide.BIDS), levels);
+        const askSize = this.sumSizes(this.orderbook.getLevels(symbol, BookSide.ASKS), levels);
+        if (bidSize + askSize === 0) return undefined;
+
+        return (bidSize - askSize) / (bidSize + askSize);
+    }
+
+    /**
+     * Returns the cumulative size of one side of the book at a price or better.
+     * @param symbol - The market symbol.
+     * @param bookSide - The side of the book ("bids" or "asks").
+     * @param price - The price up to which size is summed (bids at or above it, asks at or below it).
+     * @returns The cumulative base size.
+     */
+    public getDepthAtPrice(symbol: string, bookSide: BookSide, price: number): number {
+        let depth = 0;
+        for (const level of this.orderbook.getLevels(symbol, bookSide)) {
+            if (bookSide === BookSide.BIDS ? level.price < price : level.price > price) break;
+            depth += level.size;
+        }
+        return depth;
+    }
+
+    /**
+     * Estimates filling a taker order against the book: buys walk the asks and sells walk the bids.
+     * @param symbol - The market symbol.
+     * @param side - The side of the taker order.
+     * @param size - The size to fill, in base units or in USD.
+     * @param sizeInUsd - Whether the size is a USD notional.
+     * @returns The fill estimate, or undefined if the side to walk or the mid is not available.
+     */
+    public estimateFill(symbol: string, side: OrderSide, size: number, sizeInUsd: boolean = false): FillEstimate | undefined {
+        const mid = this.getMid(symbol);
+        if (mid === undefined) return undefined;
+
+        const bookSide = side === OrderSide.BUY ? BookSide.ASKS : BookSide.BIDS;
+        let remaining = size;
+        let filledSize = 0;
+        let notional = 0;
+        let worstPrice = 0;
+
+        for (const level of this.orderbook.getLevels(symbol, bookSide)) {
+            if (remaining <= 0) break;
+
+            const levelAmount = sizeInUsd ? level.size * level.price : level.size;
+            const taken = Math.min(remaining, levelAmount);
+            const takenBase = sizeInUsd ? taken / level.price : taken;
+
+            filledSize += takenBase;
+            notional += takenBase * level.price;
+            worstPrice = level.price;
+            remaining -= taken;
+        }
+
+        if (filledSize === 0) return undefined;
+
+        const vwap = notional / filledSize;
+        const slippage = side === OrderSide.BUY ? (vwap - mid) / mid : (mid - vwap) / mid;
+        return {
+            filledSize,
+            notional,
+            vwap,
+            worstPrice,
+            slippage,
+            slippageBps: slippage * 10000,
+            complete: remaining <= 0
+        };
+    }
+
+    /**
+     * Sums the sizes of the first levels of a side.
+     * @param levels - The levels of the side, best first.
+     * @param count - The number of levels to include.
+     * @returns The summed base size.
+     */
+    private sumSizes(levels: IterableIterator<PriceLevel>, count: number): number {
+        let total = 0;
+        let included = 0;
+        for (const level of levels) {
+            if (included++ >= count) break;
+            total += level.size;
+        }
+        return total;
+    }
+}
@@ -2,35 +2,241 @@
 import {
     InitOrderbook,
     UpdateOrderbook,
+    BatchUpdateOrderbook,
     ObMessageType,
     InitOrderbookMessageContents,
     PriceLevel,
     UpdateOrderbookMessageContents,
+    UpdatePriceLevel,
     OrderbookData,
     BookSide,
+    ChannelTypes,
+    CrossedBookPolicy,
+    MainnetProfile,
+    NetworkProfile,
     SubscriptionTypes,
-    Settings
+    Settings,
+    subOrderbook
 } from "./constants";
+import {Clients} from "./dydxClient";
+import {PriceLadder} from "./priceLadder";
+import {SocketHandler} from "./socketHandler";
+import {IndexerClient} from "@dydxprotocol/v4-client-js";
 
 /**
- * Handles order book data and updates for different symbols.
+ * Both sides of the full order book of a symbol.
+ */
+interface LadderBook {
+    bids: PriceLadder;
+    asks: PriceLadder;
+}
+
+/**
+ * The parts of the SocketHandler used to subscribe, unsubscribe and resync order books.
+ */
+export type OrderbookSocket = Pick<SocketHandler, 'getSubscriptions' | 'resubscribe' | 'subscribe' | 'unsubscribe'>;
+
+/**
+ * The parts of the IndexerClient used to fetch order book snapshots.
+ */
+export type OrderbookIndexerClient = { markets: Pick<IndexerClient['markets'], 'getPerpetualMarketOrderbook'> };
+
+/**
+ * Handles order book data and updates for different symbols, which can be changed at runtime.
+ * The whole book is kept internally and only the views returned by the handler are truncated to the depth of each symbol.
+ * Views are built lazily: an update only marks the view of its symbol as outdated, and it is rebuilt on the next read.
  */
 export class OrderbookHandler {
     private readonly symbols: string[];
-    private readonly orderbook: OrderbookData;
+    private readonly books: Map<string, LadderBook> = new Map(); // Full depth, keyed by exact price strings
+    private readonly orderbook: OrderbookData; // Getters returning the view of each symbol
+    private readonly views: Map<string, OrderbookData[string]> = new Map(); // Views truncated to the depth of each symbol
+    private readonly outdatedViews: Set<string> = new Set(); // Symbols whose book changed since their view was built
+    private readonly defaultDepth: number;
+    private readonly depths: Map<string, number> = new Map();
+    private socket?: OrderbookSocket;
+    private indexerClient?: OrderbookIndexerClient;
+    private crossedBookPolicy: CrossedBookPolicy;
+    private readonly crossedCounts: Map<string, number> = new Map();
+    private readonly crossedBooks: Set<string> = new Set(); // Symbols whose book is currently crossed or locked
+    private readonly resyncing: Set<string> = new Set(); // Symbols waiting for a fresh snapshot
+    private readonly staleCounts: Map<string, number> = new Map();
+    private readonly bufferedUpdates: Map<string, UpdateOrderbookMessageContents[]> = new Map(); // Updates received while a REST snapshot is fetched
 
     /**
      * Constructs an OrderbookHandler instance.
      * @param symbols - Array of market symbols for the order book.
+     * @param depth - Number of levels per side in the views of each symbol. Infinity returns the full book.
+     * @param crossedBookPolicy - How a crossed or locked book is resynced.
      */
-    constructor(symbols: string[]) {
-        this.symbols = symbols;
+    constructor(
+        symbols: string[],
+        depth: number = Settings.OrderbookLength,
+        crossedBookPolicy: CrossedBookPolicy = CrossedBookPolicy.Resubscribe
+    ) {
+        this.symbols = [...symbols]; // Copied, as symbols can be added and removed at runtime
         this.orderbook = {};
+        this.defaultDepth = depth;
+        this.crossedBookPolicy = crossedBookPolicy;
         this.symbols.forEach(symbol => this.initializeOrderbookDataForSymbol(symbol))
     }
 
+    /**
+     * Initializes indexer client for fetching orderbook snapshots with the REST crossed book policy.
+     * @param network - The network profile to fetch data from (mainnet by default).
+     * @param indexerClient - Optional indexer client to use instead of creating one for the network.
+     */
+    public async initializeClient(
+        network: NetworkProfile = MainnetProfile,
+        indexerClient?: OrderbookIndexerClient
+    ): Promise<void> {
+        this.indexerClient = indexerClient ?? new Clients(network).createIndexerClient();
+    }
+
+    /**
+     * Sets how a crossed or locked book is resynced.
+     * @param policy - The crossed book policy.
+     */
+    public setCrossedBookPolicy(policy: CrossedBookPolicy): void {
+        this.crossedBookPolicy = policy;
+    }
+
+    /**
+     * Returns how often the book of a symbol was found crossed or locked. A book that stays crossed over several
+     * cleanups is counted once, until it uncrosses or a snapshot replaces it.
+     * @param symbol - The market symbol.
+     * @returns The number of crossed or locked books detected.
+     */
+    public getCrossedBookCount(symbol: string): number {
+        return this.crossedCounts.get(symbol) ?? 0;
+    }
+
     private initializeOrderbookDataForSymbol(symbol: string): void {
-        this.orderbook[symbol] = { bids: [], asks: [] };
+        this.books.set(symbol, { bids: new PriceLadder(true), asks: new PriceLadder(false) });
+        this.views.set(symbol, { bids: [], asks: [] });
+        this.outdatedViews.delete(symbol);
+        this.crossedBooks.delete(symbol);
+        Object.defineProperty(this.orderbook, symbol, {
+            get: () => this.getView(symbol),
+            enumerable: true,
+            configurable: true // Removed again by removeSymbol
+        });
+    }
+
+    /**
+     * Sets the number of levels per side in the view of a symbol. The full book is kept either way.
+     * @param symbol - The market symbol.
+     * @param depth - The number of levels per side. Infinity returns the full book.
+     */
+    public setDepth(symbol: string, depth: number): void {
+        this.depths.set(symbol, depth);
+        this.invalidateView(symbol);
+    }
+
+    /**
+     * Returns the number of levels per side in the view of a symbol.
+     * @param symbol - The market symbol.
+     * @returns The depth of the view.
+     */
+    public getDepth(symbol: string): number {
+        return this.depths.get(symbol) ?? this.defaultDepth;
+    }
+
+    /**
+     * Returns how many level updates of a symbol were ignored because a newer offset was already applied.
+     * @param symbol - The market symbol.
+     * @returns The number of stale level updates.
+     */
+    public getStaleUpdateCount(symbol: string): number {
+        return this.staleCounts.get(symbol) ?? 0;
+    }
+
+    /**
+     * Iterates over the full depth of one side of the book of a symbol, best first.
+     * @param symbol - The market symbol.
+     * @param bookSide - The side of the book ("bids" or "asks").
+     * @returns An iterator over the price levels, empty if the symbol is not handled.
+     */
+    public getLevels(symbol: string, bookSide: BookSide): IterableIterator<PriceLevel> {
+        const book = this.books.get(symbol);
+        if (!book) return [][Symbol.iterator]();
+        return bookSide === BookSide.BIDS ? book.bids.levels() : book.asks.levels();
+    }
+
+    /**
+     * Marks the view of a symbol as outdated, so it is rebuilt from the full book on the next read.
+     * @param symbol - The market symbol.
+     */
+    private invalidateView(symbol: string): void {
+        if (this.books.has(symbol)) {
+            this.outdatedViews.add(symbol);
+        }
+    }
+
+    /**
+     * Returns the numeric view of a symbol, rebuilding it from the full book if the book changed since the last read.
+     * @param symbol - The market symbol.
+     * @returns The bids and asks truncated to the depth of the symbol.
+     */
+    private getView(symbol: string): OrderbookData[string] {
+        const book = this.books.get(symbol);
+        if (book && this.outdatedViews.delete(symbol)) {
+            const depth = this.getDepth(symbol);
+            this.views.set(symbol, {
+                bids: book.bids.toLevels(depth),
+                asks: book.asks.toLevels(depth)
+            });
+        }
+        return this.views.get(symbol) ?? { bids: [], asks: [] };
+    }
+
+    /**
+     * Sets the socket handler used to subscribe and unsubscribe the order books of symbols added or removed at runtime.
+     * @param socket - The socket handler carrying the v4_orderbook subscriptions.
+     */
+    public setSocketHandler(socket: OrderbookSocket): void {
+        this.socket = socket;
+    }
+
+    /**
+     * Returns the handled symbols.
+     * @returns A copy of the handled symbols.
+     */
+    public getSymbols(): string[] {
+        return [...this.symbols];
+    }
+
+    /**
+     * Starts handling the order book of a symbol at runtime and subscribes to it if a socket handler is set.
+     * @param symbol - The market symbol to add.
+     * @param batched - Whether to subscribe to batched order book updates.
+     */
+    public addSymbol(symbol: string, batched: boolean = false): void {
+        if (this.symbols.includes(symbol)) return;
+
+        this.symbols.push(symbol);
+        this.initializeOrderbookDataForSymbol(symbol);
+        this.socket?.subscribe(subOrderbook(symbol, batched));
+    }
+
+    /**
+     * Stops handling the order book of a symbol at runtime and unsubscribes from it if a socket handler is set.
+     * @param symbol - The market symbol to remove.
+     */
+    public removeSymbol(symbol: string): void {
+        const index = this.symbols.indexOf(symbol);
+        if (index === -1) return;
+
+        this.symbols.splice(index, 1);
+        this.books.delete(symbol);
+        delete this.orderbook[symbol];
+        this.views.delete(symbol);
+        this.outdatedViews.delete(symbol);
+        this.bufferedUpdates.delete(symbol);
+        this.depths.delete(symbol);
+        this.resyncing.delete(symbol);
+        this.crossedBooks.delete(symbol);
+        this.socket?.unsubscribe(subOrderbook(symbol));
     }
 
     /**
@@ -53,6 +259,10 @@ export class OrderbookHandler {
                 this.updateBook(obj);
                 break;
 
+            case SubscriptionTypes.ChannelBatchData:
+                this.updateBookBatch(obj);
+                break;
+
             default:
                 console.error("Unhandled message type in OrderbookHandler:", obj);
         }
@@ -67,32 +277,38 @@ export class OrderbookHandler {
     private initializeBook(obj: InitOrderbook): void {
         const { id, contents } = obj;
         const symbol = id;
+        const book = this.books.get(symbol);
+        if (!book) return; // Not handled, e.g. removed while the snapshot was in flight
 
         // Update bids
         if (contents.bids) {
-            this.orderbook[symbol].bids = this.mapAndSortOrders(contents, BookSide.BIDS)
+            this.fillLadder(book.bids, contents, BookSide.BIDS);
         }
 
         // Update asks
         if (contents.asks) {
-            this.orderbook[symbol].asks = this.mapAndSortOrders(contents, BookSide.ASKS)
+            this.fillLadder(book.asks, contents, BookSide.ASKS);
         }
+
+        this.resyncing.delete(symbol);
+        this.crossedBooks.delete(symbol);
+        this.bufferedUpdates.delete(symbol); // Supersedes a REST snapshot in flight
+        this.invalidateView(symbol);
     }
 
     /**
-     * Maps and sorts order book entries for a given book side.
+     * Replaces the levels of a ladder with the levels of a snapshot.
+     * @param ladder - The ladder to fill.
      * @param contents - The raw order book data containing bids and asks.
      * @param bookSide - The side of the book to process ("bids" or "asks").
-     * @returns An array of processed and sorted price levels.
      */
-    private mapAndSortOrders(contents: InitOrderbookMessageContents, bookSide: BookSide): PriceLevel[] {
+    private fillLadder(ladder: PriceLadder, contents: InitOrderbookMessageContents, bookSide: BookSide): void {
         const initData = bookSide === BookSide.BIDS ? contents.bids : contents.asks
 
-        return initData
-            .map(order => ({ price: parseFloat(order.price), size: parseFloat(order.size) }))
-            .sort((a, b) =>
-                bookSide === BookSide.BIDS ? b.price - a.price : a.price - b.price) // Conditional sorting
-            .slice(0, Settings.OrderbookLength); // Keep only the top 20 orders
+        ladder.clear();
+        for (const order of initData) {
+            ladder.set(order.price, order.size, order.offset);
+        }
     }
 
     /**
@@ -101,175 +317,204 @@ export class OrderbookHandler {
      */
     private updateBook(obj: UpdateOrderbook): void {
         const { id, contents } = obj;
-        const symbol = id;
+        this.applyBookUpdate(id, contents);
+        this.invalidateView(id);
+    }
+
+    /**
+     * Updates the order book with each entry of a batched message, in order.
+     * @param obj - The batched update order book message.
+     */
+    private updateBookBatch(obj: BatchUpdateOrderbook): void {
+        const { id, contents } = obj;
+        for (const update of contents) {
+            this.applyBookUpdate(id, update);
+        }
+        this.invalidateView(id);
+    }
+
+    /**
+     * Applies a single update to both sides of the order book. While a REST snapshot of the symbol is fetched,
+     * the update is buffered instead and replayed on top of the snapshot.
+     * @param symbol - The market symbol for which the order book is updated.
+     * @param contents - The bids and asks to update.
+     */
+    private applyBookUpdate(symbol: string, contents: UpdateOrderbookMessageContents): void {
+        const book = this.books.get(symbol);
+        if (!book) return;
+
+        const buffered = this.bufferedUpdates.get(symbol);
+        if (buffered) {
+            buffered.push(contents);
+            return;
+        }
 
         // Update bids
         if (contents.bids) {
-            this.updateBookSide(contents, BookSide.BIDS, symbol);
+            this.updateBookSide(symbol, book.bids, contents.bids);
         }
 
         // Update asks
         if (contents.asks) {
-            this.updateBookSide(contents, BookSide.ASKS, symbol);
+            this.updateBookSide(symbol, book.asks, contents.asks);
         }
     }
 
     /**
-     * Updates a specific side (bids or asks) of the order book.
-     * @param data - The update data for the order book.
-     * @param bookSide - The side of the book to update ("bids" or "asks").
+     * Updates a specific side (bids or asks) of the order book. Levels are matched by their exact price string,
+     * and a size of 0 removes the level. Levels carrying an offset older than the one already applied are skipped.
      * @param symbol - The market symbol for which the order book is updated.
+     * @param ladder - The side of the book to update.
+     * @param updateData - The updated price levels.
      */
-    private updateBookSide(data: UpdateOrderbookMessageContents, bookSide: BookSide, symbol: string): void {
-        const updateData = bookSide == BookSide.BIDS ? data.bids : data.asks
-        const updateOrderbook = bookSide == BookSide.BIDS ? this.orderbook[symbol].bids : this.orderbook[symbol].asks
-
-        if (updateData) {
-            for (const order of updateData) {
-                const price = parseFloat(order[0]);
-                const size = parseFloat(order[1]);
-                const index = updateOrderbook.findIndex(p => p.price === price);
-
-                if (bookSide === BookSide.BIDS) {
-                    // Update bid side
-                    this.orderbook[symbol].bids = this.manageOrderUpdates(price, size, index, bookSide, updateOrderbook)
-                } else {
-                    // Update ask side
-                    this.orderbook[symbol].asks = this.manageOrderUpdates(price, size, index, bookSide, updateOrderbook)
-                }
+    private updateBookSide(symbol: string, ladder: PriceLadder, updateData: UpdatePriceLevel[]): void {
+        for (const [price, size, offset] of updateData) {
+            if (!ladder.set(price, size, offset)) {
+                this.staleCounts.set(symbol, this.getStaleUpdateCount(symbol) + 1);
             }
         }
     }
 
     /**
-     * Manages updates to a specific side of the order book.
-     * @param price - The price of the order to update.
-     * @param size - The size of the order to update. If the size is 0, the order is removed.
-     * @param index - The index of the existing order in the order book. If -1, it's a new order.
-     * @param bookSide - The side of the book being updated ("bids" or "asks").
-     * @param updateOrderbook - The current state of the order book side being updated.
-     * @returns The updated and sorted array of price levels.
+     * Cleans up the orderbook by removing small orders and resyncing crossed or locked books.
+     * @param symbol - The market symbol for the orderbook to clean up.
+     * @param stepSize - The minimum size of an order to be considered valid. Orders smaller than this size are removed.
      */
-    private manageOrderUpdates(price: number, size: number, index: number, bookSide: BookSide, updateOrderbook: PriceLevel[]): PriceLevel[] {
-        if (size > 0) {
-            if (index !== -1) {
-                updateOrderbook[index].size = size;
-            } else {
-                // Insert in sorted order
-                const insertionIndex = this.findInsertionIndex(price, updateOrderbook, bookSide);
-                updateOrderbook.splice(insertionIndex, 0, { price, size });
-            }
+    public cleanupOrderbook(symbol: string, stepSize: string): void {
+        const book = this.books.get(symbol);
+        if (!book) return;
 
-            // Ensure only top 20 orders are kept
-            if (updateOrderbook.length > Settings.OrderbookLength) {
-                updateOrderbook.length = Settings.OrderbookLength; // Trim the order book to 20 elements
-            }
+        // Remove small orders
+        this.removeSmallOrders(book, stepSize)
 
-        } else if (index !== -1) {
-            updateOrderbook.splice(index, 1);
+        // Check for a crossed or locked orderbook
+        const highestBid = book.bids.first();
+        const lowestAsk = book.asks.first();
+
+        if (highestBid && lowestAsk && highestBid.price >= lowestAsk.price) {
+            this.handleCrossedBook(symbol, highestBid.price, lowestAsk.price);
+        } else {
+            this.crossedBooks.delete(symbol);
         }
 
-        // No need to sort the entire book here if managed correctly
-        return updateOrderbook;
+        this.invalidateView(symbol);
     }
 
     /**
-     * Finds the correct insertion index for a new price level in a sorted order book.
-     * This method uses a binary search algorithm to efficiently find the position.
-     * @param price The price of the new order to insert.
-     * @param orderbook The current state of the order book (bids or asks).
-     * @param bookSide The side of the book being updated (bids or asks).
-     * @returns The index at which the new price level should be inserted.
+     * Removes orders from the orderbook that are smaller than the specified step size.
+     * This method is used to filter out small orders that are effectively zero but have not been
+     * explicitly removed from the orderbook.
+     * @param book - The orderbook to clean up.
+     * @param stepSize - The minimum size of an order to be considered valid. Orders smaller than this size are removed.
      */
-    private findInsertionIndex(price: number, orderbook: PriceLevel[], bookSide: BookSide): number {
-        let start = 0;
-        let end = orderbook.length - 1;
-
-        while (start <= end) {
-            const mid = Math.floor((start + end) / 2);
-            const midPrice = orderbook[mid].price;
-
-            if (midPrice === price) {
-                // Exact match found, return this index
-                return mid;
-            }
-
-            if (bookSide === BookSide.BIDS) {
-                // For bids, the order is descending
-                if (price > midPrice) {
-                    end = mid - 1;
-                } else {
-                    start = mid + 1;
-                }
-            } else {
-                // For asks, the order is ascending
-                if (price < midPrice) {
-                    end = mid - 1;
-                } else {
-                    start = mid + 1;
-                }
-            }
-        }
-
-        // If we don't find an exact match, return the start index
-        // This is where the new price level should be inserted to maintain order
-        return start;
+    private removeSmallOrders(book: LadderBook, stepSize: string): void {
+        const minSize = parseFloat(stepSize);
+        book.bids.filterSizes(size => size > minSize);
+        book.asks.filterSizes(size => size > minSize);
     }
 
     /**
-     * Cleans up the orderbook by removing small orders and correcting inverse orderbook situations.
-     * @param symbol - The market symbol for the orderbook to clean up.
-     * @param stepSize - The minimum size of an order to be considered valid. Orders smaller than this size are removed.
+     * Counts a crossed or locked book and resyncs it according to the crossed book policy. A crossed book means
+     * updates were missed, so neither side can be trusted and the whole book is replaced by a fresh snapshot.
+     * The book is counted and logged once when it becomes crossed, and the resync is retried on later cleanups
+     * until one is in flight. If the book cannot be resubscribed, it is fetched from the REST API when possible.
+     * @param symbol - The market symbol of the crossed book.
+     * @param highestBid - The best bid price.
+     * @param lowestAsk - The best ask price.
      */
-    public cleanupOrderbook(symbol: string, stepSize: string): void {
-        // Remove small orders
-        this.removeSmallOrders(symbol, stepSize)
+    private handleCrossedBook(symbol: string, highestBid: number, lowestAsk: number): void {
+        if (!this.crossedBooks.has(symbol)) {
+            this.crossedBooks.add(symbol);
+            this.crossedCounts.set(symbol, this.getCrossedBookCount(symbol) + 1);
+            console.warn(`Crossed orderbook detected for ${symbol} (bid ${highestBid} >= ask ${lowestAsk}), policy: ${this.crossedBookPolicy}.`);
+        }
+        if (this.resyncing.has(symbol)) return;
+
+        switch (this.crossedBookPolicy) {
+            case CrossedBookPolicy.Resubscribe:
+                if (!this.resubscribeBook(symbol) && this.indexerClient) {
+                    this.fetchBook(symbol);
+                }
+                break;
 
-        // Check for and correct inverse orderbook
-        if (this.orderbook[symbol].bids.length > 0 && this.orderbook[symbol].asks.length > 0) {
-            const highestBid = this.orderbook[symbol].bids[0].price;
-            const lowestAsk = this.orderbook[symbol].asks[0].price;
+            case CrossedBookPolicy.Rest:
+                this.fetchBook(symbol);
+                break;
 
-            if (highestBid > lowestAsk) {
-                console.warn(`Inverse orderbook detected for ${symbol}. Correcting...`);
-                this.correctInverseOrderbook(symbol)
-            }
+            case CrossedBookPolicy.Ignore:
+                break;
         }
     }
 
     /**
-     * Removes orders from the orderbook that are smaller than the specified step size.
-     * This method is used to filter out small orders that are effectively zero but have not been
-     * explicitly removed from the orderbook.
-     * @param symbol - The market symbol for the orderbook to clean up.
-     * @param stepSize - The minimum size of an order to be considered valid. Orders smaller than this size are removed.
+     * Resubscribes to the orderbook of a symbol so the server sends a fresh snapshot. The symbol is only marked as
+     * resyncing when the resubscription was sent, so a failed attempt is retried on the next cleanup.
+     * @param symbol - The market symbol to resync.
+     * @returns True if the resubscription was sent or a snapshot is already on its way.
      */
-    private removeSmallOrders(symbol: string, stepSize: string): void {
-        this.orderbook[symbol].bids = this.orderbook[symbol].bids.filter(order => order.size > parseFloat(stepSize));
-        this.orderbook[symbol].asks = this.orderbook[symbol].asks.filter(order => order.size > parseFloat(stepSize));
+    private resubscribeBook(symbol: string): boolean {
+        if (!this.socket) {
+            console.error(`Cannot resubscribe to the orderbook of ${symbol} without a socket handler.`);
+            return false;
+        }
+
+        // Reuse the live subscription, so a batched subscription stays batched
+        const subscription = this.socket.getSubscriptions()
+            .find(sub => sub.channel === ChannelTypes.Orderbook && sub.id === symbol) ?? subOrderbook(symbol);
+
+        if (!this.socket.resubscribe(subscription)) {
+            console.error(`Cannot resubscribe to the orderbook of ${symbol}: the subscription is not active or the socket is not open.`);
+            return false;
+        }
+        this.resyncing.add(symbol);
+        return true;
     }
 
     /**
-     * Corrects an inverse orderbook situation for the specified symbol. Inverse orderbook occurs
-     * when the highest bid price is greater than the lowest ask price. This method resolves the situation
-     * by removing the top bid and ask orders until the orderbook is no longer inverse.
-     * @param symbol - The market symbol for which to correct the inverse orderbook.
+     * Replaces the orderbook of a symbol with a snapshot from the indexer REST API. Updates received while the
+     * request is in flight are buffered and replayed on top of the snapshot, so they are not lost to an older
+     * snapshot. If the request fails, the buffer is dropped and the book is resubscribed instead, or resynced again
+     * on the next cleanup if that is not possible either.
+     * @param symbol - The market symbol to resync.
      */
-    private correctInverseOrderbook(symbol: string): void {
-        // Implement logic to correct the inverse orderbook
-        // This might involve removing orders or other corrective actions
-        // For example, removing the top bid and ask until the orderbook is no longer inverse
-        while (this.orderbook[symbol].bids.length > 0 && this.orderbook[symbol].asks.length > 0
-        && this.orderbook[symbol].bids[0].price > this.orderbook[symbol].asks[0].price) {
-            this.orderbook[symbol].bids.shift();
-            this.orderbook[symbol].asks.shift();
+    private fetchBook(symbol: string): void {
+        if (!this.indexerClient) {
+            console.error(`Cannot fetch the orderbook of ${symbol} without an indexer client.`);
+            return;
         }
+
+        const buffered: UpdateOrderbookMessageContents[] = [];
+        this.bufferedUpdates.set(symbol, buffered);
+        this.resyncing.add(symbol);
+
+        this.indexerClient.markets.getPerpetualMarketOrderbook(symbol)
+            .then((contents: InitOrderbookMessageContents) => {
+                const book = this.books.get(symbol);
+                if (!book || this.bufferedUpdates.get(symbol) !== buffered) return; // Superseded or removed meanwhile
+
+                this.bufferedUpdates.delete(symbol);
+                this.resyncing.delete(symbol);
+                this.crossedBooks.delete(symbol);
+                this.fillLadder(book.bids, contents, BookSide.BIDS);
+                this.fillLadder(book.asks, contents, BookSide.ASKS);
+                buffered.forEach(update => this.applyBookUpdate(symbol, update));
+                this.invalidateView(symbol);
+            })
+            .catch(err => {
+                console.error(`Error fetching orderbook for ${symbol}:`, err);
+                if (this.bufferedUpdates.get(symbol) !== buffered) return;
+
+                this.bufferedUpdates.delete(symbol);
+                this.resyncing.delete(symbol);
+                this.resubscribeBook(symbol);
+            });
     }
 
     /**
      * Resets the order book to its initial state.
      */
     public cleanupOb(): void {
+        this.bufferedUpdates.clear();
         this.symbols.forEach(symbol => this.initializeOrderbookDataForSymbol(symbol))
     }
 }
\ No newline at end of file
@@ -0,0 +1,259 @@
+// priceLadder.ts
+import {PriceLevel, Settings} from "./constants";
+import {canonicalDecimal, compareDecimals} from "./utils";
+
+/**
+ * A price level of the ladder, linked into every level of the skip list it was promoted to.
+ */
+interface LadderNode {
+    key: string; // Canonical decimal price
+    price: number;
+    size: number;
+    offset?: string; // Canonical indexer offset of the last applied update
+    next: (LadderNode | null)[];
+}
+
+/**
+ * One side of an order book, keyed by the exact decimal price string sent by the indexer. Levels are kept sorted in a
+ * skip list (O(log n) insert and remove) next to a map for exact lookup, and are only converted to numbers in views.
+ * Updates carrying an indexer offset are ignored when a newer offset was already applied to the level, including
+ * levels that were removed, whose last offset is kept in a bounded set of tombstones.
+ */
+export class PriceLadder {
+    private readonly descending: boolean;
+    private readonly head: LadderNode;
+    private readonly nodes: Map<string, LadderNode> = new Map();
+    private readonly tombstones: Map<string, string> = new Map(); // Last offset of removed levels, oldest first
+    private level = 1;
+
+    /**
+     * Constructs a PriceLadder instance.
+     * @param descending - Whether the best price is the highest, as for bids.
+     */
+    constructor(descending: boolean) {
+        this.descending = descending;
+        this.head = { key: '', price: 0, size: 0, next: new Array(Settings.LadderMaxLevel).fill(null) };
+    }
+
+    /**
+     * Returns the number of levels in the ladder.
+     * @returns The number of levels.
+     */
+    public get length(): number {
+        return this.nodes.size;
+    }
+
+    /**
+     * Sets the size of a price level, inserting it if it is new and removing it if the size is zero.
+     * @param price - The price as a decimal string.
+     * @param size - The size as a decimal string or number.
+     * @param offset - The indexer offset of the update, if any.
+     * @returns False if the update was ignored because a newer offset was already applied to the level.
+     */
+    public set(price: string, size: string | number, offset?: string): boolean {
+        const key = canonicalDecimal(price);
+        const numericSize = typeof size === 'number' ? size : parseFloat(size);
+        const canonicalOffset = offset === undefined ? undefined : canonicalDecimal(offset);
+
+        if (canonicalOffset !== undefined && this.isStale(key, canonicalOffset)) {
+            return false;
+        }
+
+        if (!(numericSize > 0)) {
+            this.delete(key, canonicalOffset);
+            return true;
+        }
+
+        const existing = this.nodes.get(key);
+        if (existing) {
+            existing.size = numericSize;
+            existing.offset = canonicalOffset ?? existing.offset;
+            return true;
+        }
+
+        const update = this.findPredecessors(key);
+        const nodeLevel = this.randomLevel();
+        if (nodeLevel > this.level) {
+            for (let i = this.level; i < nodeLevel; i++) update[i] = this.head;
+            this.level = nodeLevel;
+        }
+
+        const node: LadderNode = {
+            key,
+            price: parseFloat(key),
+            size: numericSize,
+            offset: canonicalOffset ?? this.tombstones.get(key),
+            next: new Array(nodeLevel).fill(null)
+        };
+        for (let i = 0; i < nodeLevel; i++) {
+            node.next[i] = update[i].next[i];
+            update[i].next[i] = node;
+        }
+        this.nodes.set(key, node);
+        this.tombstones.delete(key);
+        return true;
+    }
+
+    /**
+     * Returns the size of a price level.
+     * @param price - The price as a decimal string.
+     * @returns The size, or undefined if the level does not exist.
+     */
+    public get(price: string): number | undefined {
+        return this.nodes.get(canonicalDecimal(price))?.size;
+    }
+
+    /**
+     * Removes a price level, keeping its last offset as a tombstone so older updates cannot bring it back.
+     * @param price - The price as a decimal string.
+     * @param offset - The indexer offset of the removal, if any.
+     * @returns True if the level existed.
+     */
+    public delete(price: string, offset?: string): boolean {
+        const key = canonicalDecimal(price);
+        const node = this.nodes.get(key);
+        const tombstone = offset ?? node?.offset;
+        if (tombstone !== undefined) {
+            this.addTombstone(key, canonicalDecimal(tombstone));
+        }
+        if (!node) return false;
+
+        const update = this.findPredecessors(key);
+        for (let i = 0; i < node.next.length; i++) {
+            if (update[i].next[i] === node) {
+                update[i].next[i] = node.next[i];
+            }
+        }
+        while (this.level > 1 && this.head.next[this.level - 1] === null) {
+            this.level--;
+        }
+        this.nodes.delete(key);
+        return true;
+    }
+
+    /**
+     * Returns the best price level.
+     * @returns The best level, or undefined if the ladder is empty.
+     */
+    public first(): PriceLevel | undefined {
+        const node = this.head.next[0];
+        return node ? { price: node.price, size: node.size } : undefined;
+    }
+
+    /**
+     * Removes the best price level.
+     */
+    public shift(): void {
+        const node = this.head.next[0];
+        if (node) this.delete(node.key);
+    }
+
+    /**
+     * Removes every level whose size does not pass a filter.
+     * @param keep - Returns true for the sizes to keep.
+     */
+    public filterSizes(keep: (size: number) => boolean): void {
+        Array.from(this.nodes.values())
+            .filter(node => !keep(node.size))
+            .forEach(node => this.delete(node.key));
+    }
+
+    /**
+     * Iterates over the levels as numbers, best first, without copying the ladder.
+     * @returns An iterator over the price levels.
+     */
+    public *levels(): IterableIterator<PriceLevel> {
+        for (let node = this.head.next[0]; node; node = node.next[0]) {
+            yield { price: node.price, size: node.size };
+        }
+    }
+
+    /**
+     * Returns the best levels as numbers, best first.
+     * @param depth - The maximum number of levels. Infinity returns every level.
+     * @returns The price levels.
+     */
+    public toLevels(depth: number = Infinity): PriceLevel[] {
+        const levels: PriceLevel[] = [];
+        for (let node = this.head.next[0]; node && levels.length < depth; node = node.next[0]) {
+            levels.push({ price: node.price, size: node.size });
+        }
+        return levels;
+    }
+
+    /**
+     * Removes every level and tombstone, e.g. before loading a snapshot.
+     */
+    public clear(): void {
+        this.head.next.fill(null);
+        this.nodes.clear();
+        this.tombstones.clear();
+        this.level = 1;
+    }
+
+    /**
+     * Checks whether an update is not newer than the last offset applied to its level.
+     * @param key - The canonical price.
+     * @param offset - The canonical offset of the update.
+     * @returns True if the update is stale.
+     */
+    private isStale(key: string, offset: string): boolean {
+        const applied = this.nodes.get(key)?.offset ?? this.tombstones.get(key);
+        return applied !== undefined && compareDecimals(offset, applied) <= 0;
+    }
+
+    /**
+     * Records the last offset of a removed level, evicting the oldest tombstone once the set is full.
+     * @param key - The canonical price.
+     * @param offset - The canonical offset.
+     */
+    private addTombstone(key: string, offset: string): void {
+        this.tombstones.delete(key);
+        this.tombstones.set(key, offset);
+        if (this.tombstones.size > Settings.MaxTombstones) {
+            this.tombstones.delete(this.tombstones.keys().next().value as string);
+        }
+    }
+
+    /**
+     * Finds, for every level of the skip list, the last node ordered before a key.
+     * @param key - The canonical price.
+     * @returns The predecessor of the key on each level.
+     */
+    private findPredecessors(key: string): LadderNode[] {
+        const update: LadderNode[] = new Array(Settings.LadderMaxLevel).fill(this.head);
+        let node = this.head;
+        for (let i = this.level - 1; i >= 0; i--) {
+            let next = node.next[i];
+            while (next && this.before(next.key, key)) {
+                node = next;
+                next = node.next[i];
+            }
+            update[i] = node;
+        }
+        return update;
+    }
+
+    /**
+     * Checks whether a price is ordered before another on this side of the book.
+     * @param a - The first canonical price.
+     * @param b - The second canonical price.
+     * @returns True if a is a better price than b.
+     */
+    private before(a: string, b: string): boolean {
+        const comparison = compareDecimals(a, b);
+        return this.descending ? comparison > 0 : comparison < 0;
+    }
+
+    /**
+     * Picks the number of skip list levels of a new node, each further level with half the probability.
+     * @returns The level of the new node.
+     */
+    private randomLevel(): number {
+        let level = 1;
+        while (level < Settings.LadderMaxLevel && Math.random() < 0.5) {
+            level++;
+        }
+        return level;
+    }
+}
@@ -0,0 +1,114 @@
+// quantization.ts
+import {OrderSide} from "@dydxprotocol/v4-client-js";
+import {MarketState} from "./constants";
+import {OrderSizeError} from "./errors";
+import {quantumsToSize, shiftDecimal, subticksToPrice} from "./utils";
+
+const GridTolerance = 1e-9; // Relative distance below which a value is considered to be on the grid already
+
+/**
+ * Rounds prices to ticks and sizes to steps exactly as the exchange expects them, using the raw quantum fields
+ * of a market (atomicResolution, quantumConversionExponent, subticksPerTick and stepBaseQuantums).
+ */
+export class Quantizer {
+    private readonly symbol: string;
+    private readonly tickSize: string;
+    private readonly stepSize: string;
+    private readonly minSize: string;
+
+    /**
+     * Constructs a Quantizer instance.
+     * @param market - The market data of the symbol, e.g. from MarketsHandler.getMarket.
+     */
+    constructor(market: MarketState) {
+        const minQuantums = Math.max(market.minOrderBaseQuantums ?? 0, market.stepBaseQuantums);
+
+        this.symbol = market.ticker;
+        this.tickSize = subticksToPrice(market.subticksPerTick, market.atomicResolution, market.quantumConversionExponent);
+        this.stepSize = quantumsToSize(market.stepBaseQuantums, market.atomicResolution);
+        this.minSize = quantumsToSize(minQuantums, market.atomicResolution);
+    }
+
+    /**
+     * Returns the tick size of the market.
+     * @returns The tick size as a decimal string.
+     */
+    public getTickSize(): string {
+        return this.tickSize;
+    }
+
+    /**
+     * Returns the step size of the market.
+     * @returns The step size as a decimal string.
+     */
+    public getStepSize(): string {
+        return this.stepSize;
+    }
+
+    /**
+     * Returns the minimum order size of the market.
+     * @returns The minimum order size as a decimal string.
+     */
+    public getMinSize(): string {
+        return this.minSize;
+    }
+
+    /**
+     * Rounds a price to the tick size. Passive orders round away from the spread (bids down, asks up),
+     * aggressive orders such as market orders round through it (buys up, sells down) so they are never less marketable.
+     * @param price - The price to round.
+     * @param side - The side of the order.
+     * @param aggressive - Whether the order takes liquidity.
+     * @returns The price on the tick grid.
+     * @throws RangeError if the price is not finite or too large to be rounded exactly.
+     */
+    public roundPrice(price: number, side: OrderSide, aggressive: boolean = false): number {
+        const roundUp = (side === OrderSide.SELL) !== aggressive;
+        return parseFloat(this.roundToIncrement(price, this.tickSize, roundUp));
+    }
+
+    /**
+     * Rounds a size down to the step size.
+     * @param size - The size to round.
+     * @returns The size on the step grid.
+     * @throws OrderSizeError if the rounded size is below the minimum order size.
+     * @throws RangeError if the size is not finite or too large to be rounded exactly.
+     */
+    public roundSize(size: number): number {
+        const rounded = parseFloat(this.roundToIncrement(size, this.stepSize, false));
+        if (rounded < parseFloat(this.minSize)) {
+            throw new OrderSizeError(this.symbol, size, this.minSize);
+        }
+        return rounded;
+    }
+
+    /**
+     * Rounds a value to a multiple of an increment. The multiple is counted in floating point, but the result
+     * is built from the integer count and the digits of the increment, so it carries no floating point error.
+     * @param value - The value to round.
+     * @param increment - The increment as a decimal string.
+     * @param roundUp - Whether values between two multiples round up instead of down.
+     * @returns The rounded value as a decimal string.
+     * @throws RangeError if the value is not finite or its multiple of the increment digits is not a safe integer,
+     * as it could not be represented exactly.
+     */
+    private roundToIncrement(value: number, increment: string, roundUp: boolean): string {
+        const units = value / parseFloat(increment);
+        const nearest = Math.round(units);
+
+        let count: number;
+        if (Math.abs(units - nearest) <= GridTolerance * Math.max(1, Math.abs(units))) {
+            count = nearest;
+        } else {
+            count = roundUp ? Math.ceil(units) : Math.floor(units);
+        }
+
+        const decimals = increment.includes('.') ? increment.split('.')[1].length : 0;
+        const digits = parseInt(increment.replace('.', ''), 10);
+        const scaled = count * digits;
+        if (!Number.isSafeInteger(scaled)) {
+            throw new RangeError(`Cannot round ${value} to ${increment} for ${this.symbol}: out of range`);
+        }
+        return shiftDecimal(scaled, -decimals);
+    }
+}
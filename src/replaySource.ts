@@ -0,0 +1,106 @@
+// replaySource.ts
+import fs from "fs";
+import readline from "readline";
+import {
+    MessageCallback,
+    RecordedFrame,
+    SubscriptionTypes
+} from "./constants";
+
+/**
+ * Replays a session recorded by the SocketHandler through the same callback used for live data,
+ * so handler behaviour can be reproduced without a network connection.
+ */
+export class ReplaySource {
+    private readonly path: string;
+    private readonly callback: MessageCallback;
+    private readonly speed: number;
+    private stopped = false;
+
+    /**
+     * Constructs a ReplaySource instance.
+     * @param path - The JSONL file written by the SocketHandler 'recordPath' option.
+     * @param callback - The callback function to process replayed messages.
+     * @param speed - Replay speed relative to the recording (2 = twice as fast). Infinity replays without delays.
+     */
+    constructor(path: string, callback: MessageCallback, speed: number = 1) {
+        this.path = path;
+        this.callback = callback;
+        this.speed = speed;
+    }
+
+    /**
+     * Waits for the given number of milliseconds.
+     * @param ms - The delay in milliseconds.
+     */
+    private async sleep(ms: number): Promise<void> {
+        await new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    /**
+     * Parses a line of the recording file.
+     * @param line - The line to parse.
+     * @returns The recorded frame, or null if the line is empty or malformed.
+     */
+    private parseLine(line: string): RecordedFrame | null {
+        if (line.trim() === '') return null;
+
+        try {
+            return JSON.parse(line) as RecordedFrame;
+        } catch (error) {
+            console.error('Skipping malformed recorded frame:', line);
+            return null;
+        }
+    }
+
+    /**
+     * Replays the recording from start to end, respecting the recorded gaps between frames scaled by the speed.
+     * @returns A promise that resolves when the whole file has been replayed or the replay was stopped.
+     */
+    public async run(): Promise<void> {
+        const lines = readline.createInterface({ input: fs.createReadStream(this.path), crlfDelay: Infinity });
+        let previousReceivedAt: number | null = null;
+
+        for await (const line of lines) {
+            if (this.stopped) break;
+
+            const frame = this.parseLine(line);
+            if (!frame) continue;
+
+            // Wait for the recorded gap between frames
+            if (previousReceivedAt !== null && Number.isFinite(this.speed)) {
+                const delay = (frame.receivedAt - previousReceivedAt) / this.speed;
+                if (delay > 0) {
+                    await this.sleep(delay);
+                }
+            }
+            previousReceivedAt = frame.receivedAt;
+
+            this.replayFrame(frame);
+        }
+        lines.close();
+    }
+
+    /**
+     * Parses a recorded frame and passes it to the callback.
+     * @param frame - The recorded frame to replay.
+     */
+    private replayFrame(frame: RecordedFrame): void {
+        try {
+            const obj = JSON.parse(frame.data);
+
+            // Unsubscribe acknowledgements are not forwarded to the data handlers, as in the SocketHandler
+            if (obj.type === SubscriptionTypes.Unsubscribed) return;
+            this.callback(obj);
+        } catch (error) {
+            console.error('Error replaying frame:', error);
+        }
+    }
+
+    /**
+     * Stops the replay after the current frame.
+     */
+    public stop(): void {
+        this.stopped = true;
+    }
+}
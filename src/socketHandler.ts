@@ -1,35 +1,108 @@
 // socketHandler.ts
 import WebSocket from "ws";
+import fs from "fs";
 import {sendDiscordNotification} from "./utils";
 import {
-    Endpoint,
+    ConnectionState,
+    MainnetProfile,
+    RecordedFrame,
+    ReconnectOptions,
+    Settings,
+    StaleCallback,
+    StaleTimeouts,
+    StateChangeCallback,
     Subscription,
+    SocketHandlerOptions,
+    SubscriptionTypes,
     WebSocketEvent,
-    MessageCallback
+    MessageCallback,
+    unsubscribe
 } from "./constants";
 
 /**
  * Handles WebSocket connections, including message handling, reconnections, and error management.
  */
 export class SocketHandler {
-    private readonly subscriptions: Subscription[]
+    private readonly subscriptions: Map<string, Subscription> = new Map();
+    private readonly lastMessageIds: Map<string, number> = new Map(); // Last message_id seen per connection_id
+    private readonly resyncing: Set<string> = new Set(); // Subscription keys waiting for a fresh snapshot
     private readonly callback: MessageCallback;
+    private readonly url: string;
+    private readonly recordPath: string | null;
+    private recorder: fs.WriteStream | null = null;
     private reconnectTimeout: NodeJS.Timeout | null = null;
     private readonly disconnectInterval = 24 * 60 * 60 * 1000; // 24 hours
     private pingInterval: NodeJS.Timeout | null = null;
+    private pongTimeout: NodeJS.Timeout | null = null;
+    private watchdogInterval: NodeJS.Timeout | null = null;
+    private readonly pongDeadline: number;
+    private readonly staleTimeouts: StaleTimeouts;
+    private readonly lastDataAt: Map<string, number> = new Map(); // Last frame time per subscription key
+    private onStaleCallback: StaleCallback | null = null;
     private reconnectAttempts = 0;
-    private readonly maxReconnectAttempts = 10;
+    private readonly reconnectOptions: Required<ReconnectOptions>;
     private onDisconnectCallback: (() => void) | null = null;
     private ws: WebSocket | null = null;
+    private state: ConnectionState = ConnectionState.Stopped;
+    private stopped = false;
+    private readonly pendingSnapshots: Set<string> = new Set(); // Subscription keys waiting for their first snapshot
+    private onStateChangeCallback: StateChangeCallback | null = null;
+    private pendingConnect: { reject: (reason?: any) => void } | null = null; // Connection attempt that has not opened yet
 
     /**
      * Constructs a SocketHandler instance.
-     * @param subscriptions - The list of subscriptions for the WebSocket.
+     * @param subscriptions - The initial list of subscriptions for the WebSocket.
      * @param callback - The callback function to process received messages.
+     * @param options - Optional settings, such as the network profile to connect to (mainnet by default),
+     * a file to record the session to, the stale-connection timeouts and the reconnect backoff.
      */
-    constructor(subscriptions: Subscription[], callback: MessageCallback) {
-        this.subscriptions = subscriptions
+    constructor(subscriptions: Subscription[], callback: MessageCallback, options: SocketHandlerOptions = {}) {
+        subscriptions.forEach(subscription => this.subscriptions.set(this.subscriptionKey(subscription), subscription));
         this.callback = callback;
+        this.url = (options.network ?? MainnetProfile).webSocket;
+        this.pongDeadline = options.pongTimeout ?? Settings.PongTimeout;
+        this.staleTimeouts = options.staleTimeouts ?? {};
+        this.recordPath = options.recordPath ?? null;
+        this.reconnectOptions = {
+            baseDelay: options.reconnect?.baseDelay ?? Settings.ReconnectBaseDelay,
+            maxDelay: options.reconnect?.maxDelay ?? Settings.ReconnectMaxDelay,
+            maxAttempts: options.reconnect?.maxAttempts ?? Settings.MaxReconnectAttempts,
+            jitter: options.reconnect?.jitter ?? 0
+        };
+    }
+
+    /**
+     * Moves the connection to a new state and notifies the state change callback.
+     * @param state - The new connection state.
+     */
+    private setState(state: ConnectionState): void {
+        if (this.state === state) return;
+
+        const previous = this.state;
+        this.state = state;
+        console.log(`Connection state: ${previous} -> ${state}.`);
+        if (this.onStateChangeCallback) {
+            this.onStateChangeCallback(state, previous);
+        }
+    }
+
+    /**
+     * Opens the recording file if recording is enabled and the file is not already open.
+     */
+    private openRecorder(): void {
+        if (!this.recordPath || this.recorder) return;
+
+        this.recorder = fs.createWriteStream(this.recordPath, { flags: 'a' });
+        this.recorder.on('error', error => console.error('Error recording WebSocket session:', error));
+    }
+
+    /**
+     * Builds the key used to identify a subscription in the live subscription set.
+     * @param subscription - The subscription (or any frame carrying a channel and id).
+     * @returns The channel and id joined into a single key.
+     */
+    private subscriptionKey(subscription: { channel: string, id?: string }): string {
+        return subscription.id ? `${subscription.channel}/${subscription.id}` : subscription.channel;
     }
 
     /**
@@ -48,18 +121,136 @@ export class SocketHandler {
     }
 
     /**
-     * Starts a timer that automatically disconnects the WebSocket after a specified interval.
+     * Starts a timer that automatically rotates the WebSocket connection after a specified interval.
      */
     private startDisconnectTimer(): void {
         if (this.reconnectTimeout) {
             clearTimeout(this.reconnectTimeout);
         }
         this.reconnectTimeout = setTimeout(() => {
-            console.log('Disconnecting after 24 hours.');
-            this.ws?.close(); // This will trigger the 'close' event and the reconnect logic
+            console.log('Rotating connection after 24 hours.');
+            this.rotateConnection().catch(err => console.error("Error rotating connection:", err));
         }, this.disconnectInterval);
     }
 
+    /**
+     * Replaces the current connection without dropping handler state (make-before-break).
+     * A second connection is opened and subscribed, and once every subscription delivered a fresh snapshot
+     * it is swapped in and the old connection is closed. The disconnect callback is not invoked.
+     * If the second connection fails, the old connection is closed and goes through the reconnect logic.
+     */
+    private async rotateConnection(): Promise<void> {
+        const previous = this.ws;
+        const subscriptions = new Map(this.subscriptions);
+        const buffered: RecordedFrame[] = [];
+
+        let standby: WebSocket;
+        try {
+            standby = await this.openStandbyConnection(subscriptions, buffered);
+        } catch (error) {
+            if (this.ws === previous) {
+                this.ws?.close(); // This will trigger the 'close' event and the reconnect logic
+            }
+            sendDiscordNotification(`Connection rotation failed: ${error}. Reconnecting...`)
+                .catch(err => console.error("Error sending rotation notification:", err));
+            return;
+        }
+
+        // The connection was replaced by the reconnect logic in the meantime
+        if (this.ws !== previous) {
+            this.discardConnection(standby);
+            return;
+        }
+        this.swapConnection(standby, subscriptions, buffered);
+    }
+
+    /**
+     * Opens a standby connection, subscribes to the given channels and buffers every frame it receives.
+     * @param subscriptions - The subscriptions to send on the standby connection.
+     * @param buffered - Receives the raw frames of the standby connection and their receive time, in order.
+     * @returns A promise that resolves once every subscription delivered its snapshot.
+     */
+    private openStandbyConnection(subscriptions: Map<string, Subscription>, buffered: RecordedFrame[]): Promise<WebSocket> {
+        return new Promise<WebSocket>((resolve, reject) => {
+            const ws = new WebSocket(this.url);
+            const pending = new Set(subscriptions.keys());
+
+            const finish = (error?: Error) => {
+                clearTimeout(timeout);
+                ws.removeAllListeners();
+                if (error) {
+                    this.discardConnection(ws);
+                    reject(error);
+                } else {
+                    resolve(ws);
+                }
+            };
+            const timeout = setTimeout(() => finish(new Error('Timed out waiting for snapshots')), Settings.RotationTimeout);
+
+            ws.on(WebSocketEvent.Open, () => {
+                this.subscribeToChannels(ws, Array.from(subscriptions.values()));
+                if (pending.size === 0) finish();
+            });
+
+            ws.on(WebSocketEvent.Message, (data: WebSocket.Data) => {
+                buffered.push({ receivedAt: Date.now(), data: data.toString() });
+                try {
+                    const obj = JSON.parse(data.toString());
+                    if (obj.type === SubscriptionTypes.Subscribed && obj.channel) {
+                        pending.delete(this.subscriptionKey(obj));
+                        if (pending.size === 0) finish();
+                    }
+                } catch (error) {
+                    console.error('Error parsing standby connection message:', error);
+                }
+            });
+
+            ws.on(WebSocketEvent.Error, (error) => finish(error));
+            ws.on(WebSocketEvent.Close, () => finish(new Error('Standby connection closed')));
+        });
+    }
+
+    /**
+     * Makes the standby connection the current one, closes the previous connection and forwards the buffered
+     * snapshots, which replace the handler state in one step.
+     * @param standby - The subscribed standby connection.
+     * @param subscriptions - The subscriptions that were sent on the standby connection.
+     * @param buffered - The raw frames received on the standby connection.
+     */
+    private swapConnection(standby: WebSocket, subscriptions: Map<string, Subscription>, buffered: RecordedFrame[]): void {
+        this.clearIntervals();
+        if (this.ws) {
+            this.discardConnection(this.ws);
+        }
+
+        this.ws = standby;
+        this.attachListeners(standby, (error) => console.error('Error on rotated connection:', error));
+
+        // Apply subscription changes made while the standby connection was opening
+        const added = Array.from(this.subscriptions.entries()).filter(([key]) => !subscriptions.has(key));
+        const removed = Array.from(subscriptions.entries()).filter(([key]) => !this.subscriptions.has(key));
+        this.subscribeToChannels(standby, added.map(([, subscription]) => subscription));
+        this.subscribeToChannels(standby, removed.map(([, subscription]) => unsubscribe(subscription)));
+
+        buffered.forEach(frame => this.handleWebSocketMessage(frame.data, frame.receivedAt));
+        this.startConnectionTimers(standby);
+        console.log('Connection rotated.');
+    }
+
+    /**
+     * Closes a connection that is no longer used without triggering the reconnect logic.
+     * @param ws - The WebSocket instance to close.
+     */
+    private discardConnection(ws: WebSocket): void {
+        ws.removeAllListeners();
+        ws.on(WebSocketEvent.Error, () => {}); // Errors of a discarded connection are irrelevant
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.close();
+        } else {
+            ws.terminate();
+        }
+    }
+
     /**
      * Starts an interval to send a ping message to the WebSocket server.
      * @param ws - The WebSocket instance to which the ping messages are sent.
@@ -71,8 +262,88 @@ export class SocketHandler {
         this.pingInterval = setInterval(() => {
             if (ws.readyState === WebSocket.OPEN) {
                 ws.ping();
+                this.startPongTimeout();
+            }
+        }, Settings.PingInterval);
+    }
+
+    /**
+     * Starts the deadline for the pong answering the last ping. A missing pong means the socket is half-open.
+     */
+    private startPongTimeout(): void {
+        if (this.pongTimeout) return; // Still waiting for the previous pong
+
+        this.pongTimeout = setTimeout(() => {
+            this.pongTimeout = null;
+            console.warn(`No pong received within ${this.pongDeadline}ms.`);
+            this.forceReconnect('No pong received from the WebSocket server.');
+        }, this.pongDeadline);
+    }
+
+    /**
+     * Clears the pong deadline once the server answered the ping.
+     */
+    private handlePong(): void {
+        if (this.pongTimeout) {
+            clearTimeout(this.pongTimeout);
+            this.pongTimeout = null;
+        }
+    }
+
+    /**
+     * Starts an interval that checks every watched channel for data within its stale timeout.
+     */
+    private startWatchdog(): void {
+        if (this.watchdogInterval) {
+            clearInterval(this.watchdogInterval);
+        }
+        if (Object.keys(this.staleTimeouts).length === 0) return;
+
+        this.watchdogInterval = setInterval(() => this.checkStaleChannels(), Settings.WatchdogInterval);
+    }
+
+    /**
+     * Records that a frame was received for a subscription key.
+     * @param key - The subscription key of the frame.
+     */
+    private markData(key: string): void {
+        this.lastDataAt.set(key, Date.now());
+    }
+
+    /**
+     * Checks each subscription of a watched channel and forces a reconnect for the first one that went stale.
+     */
+    private checkStaleChannels(): void {
+        const now = Date.now();
+
+        for (const [key, subscription] of this.subscriptions) {
+            const timeout = this.staleTimeouts[subscription.channel];
+            const lastDataAt = this.lastDataAt.get(key);
+            if (timeout === undefined || lastDataAt === undefined) continue;
+
+            if (now - lastDataAt > timeout) {
+                console.warn(`No data on ${key} for ${now - lastDataAt}ms.`);
+                if (this.onStaleCallback) {
+                    this.onStaleCallback(key);
+                }
+                this.forceReconnect(`No data on ${key} for ${timeout}ms.`);
+                return;
             }
-        }, 30000);
+        }
+    }
+
+    /**
+     * Drops a connection that is considered dead. Terminating the socket fires the 'close' event,
+     * which goes through the usual reconnect logic. The socket is terminated before the notification is sent,
+     * so a slow webhook cannot keep a dead connection alive.
+     * @param reason - The reason reported in the notification.
+     */
+    private forceReconnect(reason: string): void {
+        // Stop the checks so the same connection is not dropped twice
+        this.clearIntervals();
+        this.ws?.terminate();
+        sendDiscordNotification(`Stale WebSocket connection: ${reason} Reconnecting...`)
+            .catch(err => console.error("Error sending stale connection notification:", err));
     }
 
     /**
@@ -99,15 +370,18 @@ export class SocketHandler {
      */
     private async onClose(): Promise<void> {
         try {
-            await sendDiscordNotification('WebSocket closed. Attempting to reconnect...');
             // Clear ping interval and reconnect timeout
             this.clearIntervals();
+            if (this.stopped) return;
 
-            if (this.reconnectAttempts < this.maxReconnectAttempts) {
+            if (this.reconnectAttempts < this.reconnectOptions.maxAttempts) {
                 // Attempt reconnections up to the max amount
+                this.setState(ConnectionState.Reconnecting);
+                await sendDiscordNotification('WebSocket closed. Attempting to reconnect...');
                 await this.attemptReconnect();
             } else {
-                await sendDiscordNotification('Max reconnection attempts reached.');
+                this.setState(ConnectionState.Failed);
+                await sendDiscordNotification('Max reconnection attempts reached. Call resume() to retry.');
             }
         } catch (error) {
             await sendDiscordNotification(`Error in WebSocket onClose: ${error}`);
@@ -116,7 +390,7 @@ export class SocketHandler {
 
     /**
      * Clears any active intervals related to the WebSocket connection.
-     * This includes clearing the ping interval and the disconnect timer.
+     * This includes clearing the ping interval, the pong deadline, the watchdog and the disconnect timer.
      */
     private clearIntervals(): void {
         if (this.pingInterval) {
@@ -127,14 +401,33 @@ export class SocketHandler {
             clearTimeout(this.reconnectTimeout);
             this.reconnectTimeout = null;
         }
+        if (this.pongTimeout) {
+            clearTimeout(this.pongTimeout);
+            this.pongTimeout = null;
+        }
+        if (this.watchdogInterval) {
+            clearInterval(this.watchdogInterval);
+            this.watchdogInterval = null;
+        }
+    }
+
+    /**
+     * Calculates the delay before the next reconnect attempt: exponential backoff, capped and varied by the jitter.
+     * @returns The delay in milliseconds.
+     */
+    private getReconnectDelay(): number {
+        const { baseDelay, maxDelay, jitter } = this.reconnectOptions;
+        const delay = Math.min(maxDelay, Math.pow(2, this.reconnectAttempts) * baseDelay); // Exponential backoff
+        const variation = delay * jitter * (2 * Math.random() - 1);
+        return Math.min(maxDelay, Math.max(0, delay + variation));
     }
 
     /**
      * Attempts to reconnect the WebSocket connection using an exponential backoff strategy.
      */
     private async attemptReconnect(): Promise<void> {
-        const reconnectDelay = Math.pow(2, this.reconnectAttempts) * 1000; // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, reconnectDelay));
+        await new Promise(resolve => setTimeout(resolve, this.getReconnectDelay()));
+        if (this.stopped) return;
         this.reconnectAttempts++;
 
         try {
@@ -142,6 +435,7 @@ export class SocketHandler {
             this.reconnectAttempts = 0; // Re-assign this to 0 after connection
 
         } catch (err) {
+            if (this.stopped) return; // stop() abandoned the attempt
             await sendDiscordNotification(`Reconnection error: ${err}`);
         }
     }
@@ -153,9 +447,12 @@ export class SocketHandler {
     private async connect(): Promise<WebSocket> {
         // Check for any existing connections and close them
         await this.closeExistingConnection();
+        if (this.state !== ConnectionState.Reconnecting) {
+            this.setState(ConnectionState.Connecting);
+        }
 
         // Establish the new connection
-        const ws = new WebSocket(Endpoint.WebSocket);
+        const ws = new WebSocket(this.url);
         return this.setupWebSocket(ws);
     }
 
@@ -182,25 +479,39 @@ export class SocketHandler {
      */
     private setupWebSocket(ws: WebSocket): Promise<WebSocket> {
         return new Promise<WebSocket>((resolve, reject) => {
+            this.pendingConnect = { reject };
             ws.on(WebSocketEvent.Open, () => {
                 console.log('Connected.');
+                this.pendingConnect = null;
                 this.onWebSocketOpen(ws);
                 resolve(ws);
             });
 
-            ws.on(WebSocketEvent.Message, (data: WebSocket.Data) => {
-                this.handleWebSocketMessage(data);
-            });
+            this.attachListeners(ws, reject);
+            this.ws = ws;
+        });
+    }
 
-            ws.on(WebSocketEvent.Error, (error) => {
-                this.handleWebSocketError(error, reject);
-            });
+    /**
+     * Attaches the message, pong, error and close listeners of the current connection.
+     * @param ws - The WebSocket instance to attach the listeners to.
+     * @param reject - Called with errors of the WebSocket.
+     */
+    private attachListeners(ws: WebSocket, reject: (reason?: any) => void): void {
+        ws.on(WebSocketEvent.Message, (data: WebSocket.Data) => {
+            this.handleWebSocketMessage(data);
+        });
 
-            ws.on(WebSocketEvent.Close, () => {
-                this.handleWebSocketClose().catch(err => console.error("Error handling websocket close:", err));
-            });
+        ws.on(WebSocketEvent.Pong, () => {
+            this.handlePong();
+        });
 
-            this.ws = ws;
+        ws.on(WebSocketEvent.Error, (error) => {
+            this.handleWebSocketError(error, reject);
+        });
+
+        ws.on(WebSocketEvent.Close, () => {
+            this.handleWebSocketClose().catch(err => console.error("Error handling websocket close:", err));
         });
     }
 
@@ -209,20 +520,137 @@ export class SocketHandler {
      * @param ws - The WebSocket instance that has been opened.
      */
     private onWebSocketOpen(ws: WebSocket): void {
-        this.subscribeToChannels(ws, this.subscriptions); // Subscribe to all channels
+        this.setState(ConnectionState.Open);
+        this.pendingSnapshots.clear();
+        this.subscriptions.forEach((_, key) => this.pendingSnapshots.add(key));
+        this.subscribeToChannels(ws, Array.from(this.subscriptions.values())); // Subscribe to all current channels
+        this.startConnectionTimers(ws);
+        this.checkSubscribed();
+    }
+
+    /**
+     * Moves an open connection to the subscribed state once every subscription delivered its snapshot.
+     */
+    private checkSubscribed(): void {
+        if (this.state === ConnectionState.Open && this.pendingSnapshots.size === 0) {
+            this.setState(ConnectionState.Subscribed);
+        }
+    }
+
+    /**
+     * Starts the disconnect timer, ping interval and watchdog of the current connection.
+     * @param ws - The current WebSocket instance.
+     */
+    private startConnectionTimers(ws: WebSocket): void {
         this.startDisconnectTimer(); // Start the disconnect timer
         this.startPingInterval(ws); // Send ping to socket every 30 seconds
+
+        // Every channel gets a full stale timeout to deliver its snapshot
+        this.lastDataAt.clear();
+        this.subscriptions.forEach((_, key) => this.markData(key));
+        this.startWatchdog();
     }
 
     /**
-     * Processes messages received from the WebSocket.
+     * Processes messages received from the WebSocket. Only the frames forwarded to the callback are recorded,
+     * so a replay applies exactly what the handlers received.
      * @param data - The data received from the WebSocket message event.
+     * @param receivedAt - The time the frame was received, in epoch milliseconds.
      */
-    private handleWebSocketMessage(data: WebSocket.Data): void {
-        const obj = JSON.parse(data.toString());
+    private handleWebSocketMessage(data: WebSocket.Data, receivedAt: number = Date.now()): void {
+        const obj = this.parseFrame(data);
+        if (!obj) return;
+
+        // Drop duplicates and frames that arrive after a gap until the fresh snapshot is received
+        if (!this.checkSequence(obj)) return;
+
+        // Unsubscribe acknowledgements are not forwarded to the data handlers
+        if (obj.type === SubscriptionTypes.Unsubscribed) {
+            console.log(`Unsubscribed from ${this.subscriptionKey(obj)}.`);
+            return;
+        }
+        this.recordFrame(data, receivedAt);
         this.callback(obj);
     }
 
+    /**
+     * Parses a raw frame received from the WebSocket.
+     * @param data - The data received from the WebSocket message event.
+     * @returns The parsed frame, or null if the frame is malformed.
+     */
+    private parseFrame(data: WebSocket.Data): any {
+        try {
+            const obj = JSON.parse(data.toString());
+            if (typeof obj === 'object' && obj !== null && typeof obj.type === 'string') {
+                return obj;
+            }
+        } catch (error) {
+            // Logged below
+        }
+        console.error('Dropping malformed WebSocket frame:', data.toString());
+        return null;
+    }
+
+    /**
+     * Appends a raw frame and its receive timestamp to the recording file, if recording is enabled.
+     * @param data - The data received from the WebSocket message event.
+     * @param receivedAt - The time the frame was received, in epoch milliseconds.
+     */
+    private recordFrame(data: WebSocket.Data, receivedAt: number): void {
+        if (!this.recorder) return;
+
+        const frame: RecordedFrame = { receivedAt, data: data.toString() };
+        this.recorder.write(JSON.stringify(frame) + '\n');
+    }
+
+    /**
+     * Tracks the message_id sequence of each connection and detects gaps or duplicates.
+     * The message_id is shared by every channel of a connection, so a gap cannot be attributed to a single channel:
+     * every active subscription is resubscribed so all handlers receive a fresh snapshot.
+     * @param obj - The parsed frame received from the WebSocket.
+     * @returns True if the frame should be forwarded to the callback, false if it should be dropped.
+     */
+    private checkSequence(obj: { type: string, connection_id?: string, message_id?: number, channel?: string, id?: string }): boolean {
+        const { connection_id, message_id, channel, id } = obj;
+        if (connection_id === undefined || message_id === undefined) return true;
+
+        if (obj.type === SubscriptionTypes.Connected) {
+            // A new connection restarts the sequence, previous connections are no longer relevant
+            this.lastMessageIds.clear();
+            this.resyncing.clear();
+            this.lastMessageIds.set(connection_id, message_id);
+            return true;
+        }
+
+        const lastMessageId = this.lastMessageIds.get(connection_id);
+        if (lastMessageId !== undefined && message_id <= lastMessageId) {
+            console.warn(`Duplicate message ${message_id} on connection ${connection_id}. Dropping frame.`);
+            return false;
+        }
+        this.lastMessageIds.set(connection_id, message_id);
+
+        if (!channel) return true;
+        const key = this.subscriptionKey({ channel, id });
+        this.markData(key);
+
+        if (obj.type === SubscriptionTypes.Subscribed) {
+            // A snapshot supersedes anything that was missed
+            this.resyncing.delete(key);
+            this.pendingSnapshots.delete(key);
+            this.checkSubscribed();
+            return true;
+        }
+
+        if (lastMessageId !== undefined && message_id > lastMessageId + 1) {
+            // message_id is counted per connection, so the missed frames may belong to any channel
+            console.warn(`Message gap on connection ${connection_id} (expected ${lastMessageId + 1}, received ${message_id}). Resyncing all subscriptions.`);
+            this.subscriptions.forEach(subscription => this.resubscribe(subscription));
+        }
+
+        // Updates for a channel that is being resynced are stale until the new snapshot arrives
+        return !this.resyncing.has(key);
+    }
+
     /**
      * Handles errors from the WebSocket, logs them, sends notifications, and rejects the connection promise.
      * @param error - The error object received from the WebSocket error event.
@@ -255,15 +683,146 @@ export class SocketHandler {
         this.onDisconnectCallback = callback;
     }
 
+    /**
+     * Sets a callback function to be called whenever the connection state changes.
+     * @param callback - The callback function to execute with the new and previous state.
+     */
+    public onStateChange(callback: StateChangeCallback): void {
+        this.onStateChangeCallback = callback;
+    }
+
+    /**
+     * Returns the current connection state.
+     * @returns The connection state.
+     */
+    public getState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Sets a callback function to be called with the subscription key of a channel that stopped delivering data.
+     * @param callback - The callback function to execute when a channel goes stale.
+     */
+    public onStale(callback: StaleCallback): void {
+        this.onStaleCallback = callback;
+    }
+
+    /**
+     * Adds a subscription to the live set and sends it if the WebSocket is open.
+     * The subscription is replayed automatically after every reconnect.
+     * @param subscription - The subscription to add.
+     */
+    public subscribe(subscription: Subscription): void {
+        const key = this.subscriptionKey(subscription);
+        if (this.subscriptions.has(key)) {
+            console.log(`Already subscribed to ${key}.`);
+            return;
+        }
+
+        this.subscriptions.set(key, subscription);
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            if (this.state === ConnectionState.Open) {
+                this.pendingSnapshots.add(key);
+            }
+            this.subscribeToChannels(this.ws, [subscription]);
+            this.markData(key);
+        }
+    }
+
+    /**
+     * Removes a subscription from the live set and sends the unsubscribe frame if the WebSocket is open.
+     * @param subscription - The subscription to remove.
+     */
+    public unsubscribe(subscription: Subscription): void {
+        const key = this.subscriptionKey(subscription);
+        if (!this.subscriptions.delete(key)) {
+            console.log(`Not subscribed to ${key}.`);
+            return;
+        }
+        this.lastDataAt.delete(key);
+        this.pendingSnapshots.delete(key);
+        this.checkSubscribed();
+
+        if (this.ws?.readyState === WebSocket.OPEN) {
+            this.subscribeToChannels(this.ws, [unsubscribe(subscription)]);
+        }
+    }
+
+    /**
+     * Resubscribes to a channel so the server sends a fresh snapshot. Updates for the channel are dropped
+     * until the snapshot arrives.
+     * @param subscription - The subscription to resync.
+     * @returns True if the resubscription was sent or the channel is already being resynced, false if the
+     * subscription is not active or the socket is not open.
+     */
+    public resubscribe(subscription: Subscription): boolean {
+        const key = this.subscriptionKey(subscription);
+        if (!this.subscriptions.has(key)) return false;
+        if (this.resyncing.has(key)) return true;
+        if (this.ws?.readyState !== WebSocket.OPEN) return false;
+
+        this.resyncing.add(key);
+        this.subscribeToChannels(this.ws, [unsubscribe(subscription), subscription]);
+        return true;
+    }
+
+    /**
+     * Returns the subscriptions that are currently active and replayed on reconnect.
+     * @returns A copy of the live subscription list.
+     */
+    public getSubscriptions(): Subscription[] {
+        return Array.from(this.subscriptions.values());
+    }
+
+    /**
+     * Stops the socket handler: clears all timers, closes the connection and the recording file,
+     * and suppresses reconnection until run() or resume() is called again.
+     * A connection attempt that has not opened yet is abandoned and its promise rejected with a 'stopped' error,
+     * which run(), resume() and the reconnect logic treat as a regular stop: a pending run() or resume() resolves.
+     */
+    public stop(): void {
+        this.stopped = true;
+        this.clearIntervals();
+        if (this.pendingConnect) {
+            this.pendingConnect.reject(new Error('Socket handler stopped'));
+            this.pendingConnect = null;
+        }
+        if (this.ws) {
+            this.discardConnection(this.ws);
+            this.ws = null;
+        }
+
+        if (this.recorder) {
+            this.recorder.end();
+            this.recorder = null;
+        }
+        this.setState(ConnectionState.Stopped);
+    }
+
+    /**
+     * Resumes the socket handler after the reconnect attempts were exhausted or after stop(),
+     * with a fresh retry budget.
+     */
+    public async resume(): Promise<void> {
+        this.reconnectAttempts = 0;
+        await this.run();
+    }
+
     /**
      Run the socket handler to manage all subscriptions
      */
     public async run(): Promise<void> {
+        this.stopped = false;
+        this.openRecorder();
         try {
             await this.connect();
             // The connect method will now handle message events and invoke the callback
             // No need to set the 'message' event listener here as it is done in the connect method
         } catch (error) {
+            if (this.stopped) {
+                console.log('Socket handler stopped before the connection opened.');
+                return;
+            }
             await sendDiscordNotification(`Websocket connection error: ${error}`);
         }
     }
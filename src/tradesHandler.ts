@@ -0,0 +1,143 @@
+// tradesHandler.ts
+import {
+    defaultTradeTapeProperties,
+    InitTradesMessage,
+    Settings,
+    SubscriptionTypes,
+    TradeMessage,
+    TradesChannelData,
+    TradesData,
+    TradesMessageType
+} from "./constants";
+import {OrderSide} from "@dydxprotocol/v4-client-js";
+
+/**
+ * Handles the public trade tape for different symbols, keeping a bounded rolling window of trades
+ * together with its buy/sell volume, trade count and last-trade price.
+ */
+export class TradesHandler {
+    private readonly symbols: string[];
+    private readonly tapeLength: number;
+    private readonly tradesData: TradesData;
+
+    /**
+     * Constructs a TradesHandler instance.
+     * @param symbols - Array of market symbols for the trade tape.
+     * @param tapeLength - Maximum number of trades kept per symbol.
+     */
+    constructor(symbols: string[], tapeLength: number = Settings.TradeTapeLength) {
+        this.symbols = symbols;
+        this.tapeLength = tapeLength;
+        this.tradesData = {};
+        this.symbols.forEach(symbol => this.initializeTradesDataForSymbol(symbol));
+    }
+
+    private initializeTradesDataForSymbol(symbol: string): void {
+        this.tradesData[symbol] = defaultTradeTapeProperties();
+    }
+
+    /**
+     * Handles incoming trade messages and updates the trade tape accordingly.
+     * @param obj - The trades message to handle.
+     * @returns The updated trade tapes.
+     */
+    public handler(obj: TradesMessageType): TradesData {
+        switch (obj.type) {
+            case SubscriptionTypes.Connected:
+                console.log("Trades Connected.");
+                break;
+
+            case SubscriptionTypes.Subscribed:
+                console.log("Trades Subscribed. Initializing Data.");
+                this.initializeTrades(obj);
+                break;
+
+            case SubscriptionTypes.ChannelData:
+                this.updateTrades(obj);
+                break;
+
+            default:
+                console.error("Unhandled message type in TradesHandler:", obj);
+        }
+
+        return this.tradesData;
+    }
+
+    /**
+     * Initializes the trade tape from a subscription message.
+     * @param obj - The initialization trades message.
+     */
+    private initializeTrades(obj: InitTradesMessage): void {
+        const symbol = obj.id;
+        if (!this.tradesData[symbol]) return;
+
+        this.initializeTradesDataForSymbol(symbol);
+        this.addTrades(symbol, obj.contents.trades);
+    }
+
+    /**
+     * Adds new trades from a channel data message to the trade tape.
+     * @param obj - The trades channel data message.
+     */
+    private updateTrades(obj: TradesChannelData): void {
+        const symbol = obj.id;
+        if (!this.tradesData[symbol]) return;
+
+        this.addTrades(symbol, obj.contents.trades);
+    }
+
+    /**
+     * Adds trades to the tape oldest first, so the newest trade ends up at the front.
+     * @param symbol - The market symbol of the trades.
+     * @param trades - The trades to add, newest first as sent by the indexer.
+     */
+    private addTrades(symbol: string, trades: TradeMessage[]): void {
+        for (let i = trades.length - 1; i >= 0; i--) {
+            this.addTrade(symbol, trades[i]);
+        }
+    }
+
+    /**
+     * Adds a single trade to the front of the tape and evicts the oldest trade once the tape is full.
+     * @param symbol - The market symbol of the trade.
+     * @param trade - The trade to add.
+     */
+    private addTrade(symbol: string, trade: TradeMessage): void {
+        const tape = this.tradesData[symbol];
+        const price = parseFloat(trade.price);
+        const size = parseFloat(trade.size);
+
+        tape.trades.unshift({ id: trade.id, side: trade.side, price, size, createdAt: trade.createdAt });
+        this.adjustVolume(symbol, trade.side, size);
+        tape.tradeCount++;
+        tape.lastPrice = price;
+
+        // Keep the tape bounded
+        if (tape.trades.length > this.tapeLength) {
+            const evicted = tape.trades.pop()!;
+            this.adjustVolume(symbol, evicted.side, -evicted.size);
+            tape.tradeCount--;
+        }
+    }
+
+    /**
+     * Adds a (possibly negative) size to the buy or sell volume of a symbol.
+     * @param symbol - The market symbol.
+     * @param side - The taker side of the trade.
+     * @param size - The size to add.
+     */
+    private adjustVolume(symbol: string, side: OrderSide, size: number): void {
+        if (side === OrderSide.BUY) {
+            this.tradesData[symbol].buyVolume += size;
+        } else {
+            this.tradesData[symbol].sellVolume += size;
+        }
+    }
+
+    /**
+     * Resets the trade tapes to their initial state.
+     */
+    public cleanupTrades(): void {
+        this.symbols.forEach(symbol => this.initializeTradesDataForSymbol(symbol));
+    }
+}
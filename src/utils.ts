@@ -5,7 +5,12 @@ import {
     MarketsMessageType,
     ObMessageType,
     AccountMessageType,
-    ChannelTypes
+    TradesMessageType,
+    CandlesMessageType,
+    BlockHeightMessageType,
+    ChannelTypes,
+    PositionSide,
+    QuoteAtomicResolution
 } from "./constants";
 
 const DiscordWebHookUrl: string = process.env.DISCORD_URL as string;
@@ -51,4 +56,139 @@ export function isObMessageType(obj: AllObjectTypes): obj is ObMessageType {
  */
 export function isAccountsType(obj: AllObjectTypes): obj is AccountMessageType {
     return "channel" in obj && obj.channel === ChannelTypes.Subaccounts;
+}
+
+/**
+ * Type guard to check if an object is of the TradesMessageType.
+ *
+ * @param obj - The object to check.
+ * @returns True if the object is of TradesMessageType, false otherwise.
+ */
+export function isTradesMessageType(obj: AllObjectTypes): obj is TradesMessageType {
+    return "channel" in obj && obj.channel === ChannelTypes.Trades;
+}
+
+/**
+ * Type guard to check if an object is of the CandlesMessageType.
+ *
+ * @param obj - The object to check.
+ * @returns True if the object is of CandlesMessageType, false otherwise.
+ */
+export function isCandlesMessageType(obj: AllObjectTypes): obj is CandlesMessageType {
+    return "channel" in obj && obj.channel === ChannelTypes.Candles;
+}
+
+/**
+ * Type guard to check if an object is of the BlockHeightMessageType.
+ *
+ * @param obj - The object to check.
+ * @returns True if the object is of BlockHeightMessageType, false otherwise.
+ */
+export function isBlockHeightMessageType(obj: AllObjectTypes): obj is BlockHeightMessageType {
+    return "channel" in obj && obj.channel === ChannelTypes.BlockHeight;
+}
+
+/**
+ * Multiplies a decimal string by a power of ten without floating point error.
+ *
+ * @param value - The decimal string (or integer) to shift.
+ * @param exponent - The power of ten to multiply by.
+ * @returns The shifted value as a decimal string without redundant zeros.
+ */
+export function shiftDecimal(value: string | number, exponent: number): string {
+    const str = String(value);
+    const negative = str.startsWith('-');
+    const [intPart, fracPart = ''] = (negative ? str.slice(1) : str).split('.');
+
+    let digits = intPart + fracPart;
+    let pointIndex = intPart.length + exponent;
+    if (pointIndex <= 0) {
+        digits = '0'.repeat(1 - pointIndex) + digits;
+        pointIndex = 1;
+    }
+    if (pointIndex > digits.length) {
+        digits = digits + '0'.repeat(pointIndex - digits.length);
+    }
+
+    const integer = digits.slice(0, pointIndex).replace(/^0+(?=\d)/, '');
+    const fraction = digits.slice(pointIndex).replace(/0+$/, '');
+    const result = fraction ? `${integer}.${fraction}` : integer;
+    return negative && result !== '0' ? `-${result}` : result;
+}
+
+/**
+ * Converts subticks to a human readable price, as the indexer does for tick sizes.
+ *
+ * @param subticks - The number of subticks.
+ * @param atomicResolution - The atomic resolution of the market.
+ * @param quantumConversionExponent - The quantum conversion exponent of the market.
+ * @returns The price as a decimal string.
+ */
+export function subticksToPrice(subticks: string | number, atomicResolution: number, quantumConversionExponent: number): string {
+    return shiftDecimal(subticks, quantumConversionExponent + QuoteAtomicResolution - atomicResolution);
+}
+
+/**
+ * Converts base quantums to a human readable size, as the indexer does for step sizes.
+ *
+ * @param quantums - The number of base quantums.
+ * @param atomicResolution - The atomic resolution of the market.
+ * @returns The size as a decimal string.
+ */
+export function quantumsToSize(quantums: string | number, atomicResolution: number): string {
+    return shiftDecimal(quantums, atomicResolution);
+}
+
+/**
+ * Signs a position size by its side.
+ *
+ * @param side - The side of the position.
+ * @param size - The absolute base size of the position.
+ * @returns The base size, negative when short and 0 without a position.
+ */
+export function signedPositionSize(side: PositionSide, size: number): number {
+    switch (side) {
+        case PositionSide.LONG:
+            return size;
+        case PositionSide.SHORT:
+            return -size;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Normalizes a decimal string so equal values have equal strings, e.g. "100.50" and "0100.5" both become "100.5".
+ *
+ * @param value - The decimal string.
+ * @returns The canonical decimal string.
+ */
+export function canonicalDecimal(value: string): string {
+    return shiftDecimal(value, 0);
+}
+
+/**
+ * Compares two canonical decimal strings exactly, without converting them to floating point.
+ *
+ * @param a - The first canonical decimal string.
+ * @param b - The second canonical decimal string.
+ * @returns A negative number if a < b, a positive number if a > b and 0 if they are equal.
+ */
+export function compareDecimals(a: string, b: string): number {
+    const negativeA = a.startsWith('-');
+    const negativeB = b.startsWith('-');
+    if (negativeA !== negativeB) return negativeA ? -1 : 1;
+
+    const sign = negativeA ? -1 : 1;
+    const [intA, fracA = ''] = (negativeA ? a.slice(1) : a).split('.');
+    const [intB, fracB = ''] = (negativeB ? b.slice(1) : b).split('.');
+
+    if (intA.length !== intB.length) return sign * (intA.length - intB.length);
+    if (intA !== intB) return sign * (intA < intB ? -1 : 1);
+
+    const length = Math.max(fracA.length, fracB.length);
+    const paddedA = fracA.padEnd(length, '0');
+    const paddedB = fracB.padEnd(length, '0');
+    if (paddedA === paddedB) return 0;
+    return sign * (paddedA < paddedB ? -1 : 1);
 }
\ No newline at end of file
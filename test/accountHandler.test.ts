@@ -0,0 +1,76 @@
+// accountHandler.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AccountHandler } from "../src/accountHandler";
+import {
+    ChannelTypes,
+    InitAccountMessage,
+    PositionSide,
+    SubscriptionTypes
+} from "../src/constants";
+
+const SubaccountId = "dydx1mock/0";
+
+/**
+ * Builds a v4_subaccounts snapshot without orders or positions.
+ * @param side - The side of the USDC balance.
+ * @param size - The unsigned size of the USDC balance.
+ * @returns The snapshot message.
+ */
+function snapshot(side: PositionSide, size: string): InitAccountMessage {
+    return {
+        type: SubscriptionTypes.Subscribed,
+        connection_id: "mock-connection-1",
+        message_id: 1,
+        channel: ChannelTypes.Subaccounts,
+        id: SubaccountId,
+        contents: {
+            subaccount: {
+                address: "dydx1mock",
+                subaccountNumber: "0",
+                equity: "0",
+                freeCollateral: "0",
+                openPerpetualPositions: {},
+                assetPositions: { USDC: { symbol: "USDC", side, size, assetId: "0" } },
+                marginEnabled: true
+            },
+            orders: []
+        }
+    };
+}
+
+describe("AccountHandler collateral", () => {
+    it("keeps the sign of a negative USDC balance in the snapshot", async () => {
+        const accountHandler = new AccountHandler("ETH-USD");
+        const [, , , collateral] = await accountHandler.handler(snapshot(PositionSide.SHORT, "250.5"));
+
+        assert.deepEqual(collateral, { symbol: "USDC", size: -250.5 });
+    });
+
+    it("keeps the sign of USDC balance updates", async () => {
+        const accountHandler = new AccountHandler("ETH-USD");
+        await accountHandler.handler(snapshot(PositionSide.LONG, "1000"));
+
+        const [, , , collateral] = await accountHandler.handler({
+            type: SubscriptionTypes.ChannelData,
+            connection_id: "mock-connection-1",
+            message_id: 2,
+            id: SubaccountId,
+            channel: ChannelTypes.Subaccounts,
+            version: "2.4.0",
+            contents: {
+                assetPositions: [{
+                    address: "dydx1mock",
+                    subaccountNumber: 0,
+                    positionId: "1",
+                    assetId: "0",
+                    symbol: "USDC",
+                    side: PositionSide.SHORT,
+                    size: "40"
+                }]
+            }
+        });
+
+        assert.deepEqual(collateral, { symbol: "USDC", size: -40 });
+    });
+});
@@ -0,0 +1,59 @@
+// fundingTracker.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FundingTracker } from "../src/fundingTracker";
+import { MarketsHandler } from "../src/marketsHandler";
+import { defaultPositionProperties, OpenPosition, PositionSide } from "../src/constants";
+
+const Eth = "ETH-USD";
+const Btc = "BTC-USD";
+
+/**
+ * Builds an open position as returned by the AccountHandler.
+ * @param symbol - The market of the position.
+ * @param direction - The side of the position.
+ * @param size - The base size of the position.
+ * @returns The position.
+ */
+function openPosition(symbol: string, direction: PositionSide, size: number): OpenPosition {
+    return { ...defaultPositionProperties(), symbol, direction, positionSizeBase: size, netFunding: 1.5 };
+}
+
+describe("FundingTracker", () => {
+    it("tracks open positions", () => {
+        const tracker = new FundingTracker(new MarketsHandler([Eth, Btc]));
+        tracker.updatePosition(openPosition(Eth, PositionSide.SHORT, 2));
+
+        assert.equal(tracker.getPositionSize(Eth), -2);
+        assert.equal(tracker.getNetFunding(Eth), 1.5);
+    });
+
+    it("stops tracking a closed position", () => {
+        const tracker = new FundingTracker(new MarketsHandler([Eth, Btc]));
+        tracker.updatePosition(openPosition(Eth, PositionSide.LONG, 2));
+        tracker.updatePosition(openPosition(Eth, PositionSide.LONG, 0));
+
+        assert.equal(tracker.getPositionSize(Eth), 0);
+        assert.equal(tracker.getNetFunding(Eth), 0);
+    });
+
+    it("clears the given market on a reset position", () => {
+        const tracker = new FundingTracker(new MarketsHandler([Eth, Btc]));
+        tracker.updatePosition(openPosition(Eth, PositionSide.LONG, 2));
+        tracker.updatePosition(openPosition(Btc, PositionSide.LONG, 1));
+        tracker.updatePosition(defaultPositionProperties(), Eth);
+
+        assert.equal(tracker.getPositionSize(Eth), 0);
+        assert.equal(tracker.getPositionSize(Btc), 1);
+    });
+
+    it("clears every market on a reset position without a symbol", () => {
+        const tracker = new FundingTracker(new MarketsHandler([Eth, Btc]));
+        tracker.updatePosition(openPosition(Eth, PositionSide.LONG, 2));
+        tracker.updatePosition(openPosition(Btc, PositionSide.LONG, 1));
+        tracker.updatePosition(defaultPositionProperties());
+
+        assert.equal(tracker.getPositionSize(Eth), 0);
+        assert.equal(tracker.getPositionSize(Btc), 0);
+    });
+});
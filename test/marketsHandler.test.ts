@@ -0,0 +1,59 @@
+// marketsHandler.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MarketsHandler } from "../src/marketsHandler";
+import {
+    ChannelTypes,
+    MarketChannelData,
+    PerpetualMarketStatus,
+    SubscriptionTypes,
+    TradingMarketMessageContents
+} from "../src/constants";
+
+const Sol = "SOL-USD";
+
+/**
+ * Builds a v4_markets update with trading updates only.
+ * @param trading - The trading updates keyed by ticker.
+ * @returns The update message.
+ */
+function tradingUpdate(trading: TradingMarketMessageContents): MarketChannelData {
+    return {
+        type: SubscriptionTypes.ChannelData,
+        connection_id: "mock-connection-1",
+        message_id: 2,
+        channel: ChannelTypes.Markets,
+        version: "1.0.0",
+        contents: { trading }
+    };
+}
+
+describe("MarketsHandler listings", () => {
+    it("adds a market listed after the snapshot", () => {
+        const marketsHandler = new MarketsHandler([Sol]);
+        const tradeData = marketsHandler.handler(tradingUpdate({
+            [Sol]: {
+                ticker: Sol,
+                clobPairId: "5",
+                status: PerpetualMarketStatus.ACTIVE,
+                atomicResolution: -7,
+                quantumConversionExponent: -9,
+                subticksPerTick: 1000000,
+                stepBaseQuantums: 1000000,
+                minOrderBaseQuantums: 1000000
+            }
+        }));
+
+        assert.equal(marketsHandler.getStatus(Sol), PerpetualMarketStatus.ACTIVE);
+        assert.equal(marketsHandler.getMarket(Sol)?.tickSize, "0.01");
+        assert.equal(marketsHandler.getMarket(Sol)?.stepSize, "0.1");
+        assert.equal(tradeData[Sol].tickSize, "0.01");
+    });
+
+    it("ignores partial updates of unknown markets", () => {
+        const marketsHandler = new MarketsHandler([Sol]);
+        marketsHandler.handler(tradingUpdate({ [Sol]: { ticker: Sol, status: PerpetualMarketStatus.ACTIVE } }));
+
+        assert.equal(marketsHandler.getMarket(Sol), undefined);
+    });
+});
@@ -0,0 +1,202 @@
+// orderbookHandler.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OrderbookHandler, OrderbookSocket } from "../src/orderbookHandler";
+import {
+    ChannelTypes,
+    CrossedBookPolicy,
+    InitOrderbook,
+    InitOrderbookMessageContents,
+    Subscription,
+    SubscriptionTypes,
+    UpdateOrderbook,
+    UpdateOrderbookMessageContents
+} from "../src/constants";
+
+const Eth = "ETH-USD";
+
+const snapshot: InitOrderbook = {
+    type: SubscriptionTypes.Subscribed,
+    connection_id: "mock-connection-1",
+    message_id: 1,
+    channel: ChannelTypes.Orderbook,
+    id: Eth,
+    contents: {
+        bids: [{ price: "2500", size: "1" }, { price: "2499", size: "2" }, { price: "2498", size: "3" }],
+        asks: [{ price: "2501", size: "1" }, { price: "2502", size: "2" }]
+    }
+};
+
+/**
+ * Builds a v4_orderbook update.
+ * @param messageId - The message id of the update.
+ * @param contents - The updated levels.
+ * @returns The update message.
+ */
+function update(messageId: number, contents: UpdateOrderbookMessageContents): UpdateOrderbook {
+    return {
+        type: SubscriptionTypes.ChannelData,
+        connection_id: "mock-connection-1",
+        message_id: messageId,
+        channel: ChannelTypes.Orderbook,
+        id: Eth,
+        version: "1.0.0",
+        contents
+    };
+}
+
+/**
+ * Creates a socket handler stand-in that records the channels it is asked to resubscribe.
+ * @param accepted - Whether the resubscriptions are sent, as they are not while the socket is reconnecting.
+ * @returns The socket and the ids of the resubscribed channels.
+ */
+function socketStub(accepted: boolean): { socket: OrderbookSocket, resubscribed: string[] } {
+    const resubscribed: string[] = [];
+    const socket: OrderbookSocket = {
+        getSubscriptions: () => [],
+        resubscribe: (subscription: Subscription) => {
+            resubscribed.push(subscription.id ?? "");
+            return accepted;
+        },
+        subscribe: () => undefined,
+        unsubscribe: () => undefined
+    };
+    return { socket, resubscribed };
+}
+
+describe("OrderbookHandler views", () => {
+    it("reflects updates on the next read", () => {
+        const orderbookHandler = new OrderbookHandler([Eth], 2);
+        const orderbook = orderbookHandler.handler(snapshot);
+        assert.deepEqual(orderbook[Eth].bids, [{ price: 2500, size: 1 }, { price: 2499, size: 2 }]);
+
+        orderbookHandler.handler(update(2, { bids: [["2500", "0"]] }));
+        orderbookHandler.handler(update(3, { asks: [["2500.5", "4"]] }));
+
+        assert.deepEqual(orderbook[Eth].bids, [{ price: 2499, size: 2 }, { price: 2498, size: 3 }]);
+        assert.deepEqual(orderbook[Eth].asks, [{ price: 2500.5, size: 4 }, { price: 2501, size: 1 }]);
+    });
+
+    it("returns the same view until the book changes", () => {
+        const orderbookHandler = new OrderbookHandler([Eth]);
+        const orderbook = orderbookHandler.handler(snapshot);
+
+        const view = orderbook[Eth];
+        assert.equal(orderbook[Eth], view);
+
+        orderbookHandler.handler(update(2, { bids: [["2497", "1"]] }));
+        assert.notEqual(orderbook[Eth], view);
+    });
+
+    it("applies depth changes and removed symbols", () => {
+        const orderbookHandler = new OrderbookHandler([Eth], 1);
+        const orderbook = orderbookHandler.handler(snapshot);
+        assert.equal(orderbook[Eth].bids.length, 1);
+
+        orderbookHandler.setDepth(Eth, Infinity);
+        assert.equal(orderbook[Eth].bids.length, 3);
+
+        orderbookHandler.removeSymbol(Eth);
+        assert.deepEqual(Object.keys(orderbook), []);
+    });
+});
+
+describe("OrderbookHandler REST resync", () => {
+    const crossed: InitOrderbook = {
+        ...snapshot,
+        contents: { bids: [{ price: "2502", size: "1" }], asks: [{ price: "2501", size: "1" }] }
+    };
+
+    /**
+     * Creates a handler with the REST crossed book policy whose indexer client answers with the returned callbacks.
+     * @returns The handler and the callbacks settling the pending REST request.
+     */
+    const createHandler = async () => {
+        const orderbookHandler = new OrderbookHandler([Eth], 20, CrossedBookPolicy.Rest);
+        const request: { resolve?: (contents: InitOrderbookMessageContents) => void, reject?: (error: Error) => void } = {};
+        await orderbookHandler.initializeClient(undefined, {
+            markets: {
+                getPerpetualMarketOrderbook: () => new Promise<InitOrderbookMessageContents>((resolve, reject) => {
+                    request.resolve = resolve;
+                    request.reject = reject;
+                })
+            }
+        });
+        return { orderbookHandler, request };
+    };
+
+    it("replays updates received while the snapshot is fetched", async () => {
+        const { orderbookHandler, request } = await createHandler();
+        const orderbook = orderbookHandler.handler(crossed);
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+
+        orderbookHandler.handler(update(2, { bids: [["2499", "5"]], asks: [["2503", "0"]] }));
+        request.resolve!(snapshot.contents);
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(orderbook[Eth].bids, [{ price: 2500, size: 1 }, { price: 2499, size: 5 }, { price: 2498, size: 3 }]);
+        assert.deepEqual(orderbook[Eth].asks, [{ price: 2501, size: 1 }, { price: 2502, size: 2 }]);
+    });
+
+    it("ignores a snapshot superseded by a websocket snapshot", async () => {
+        const { orderbookHandler, request } = await createHandler();
+        const orderbook = orderbookHandler.handler(crossed);
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+
+        orderbookHandler.handler(snapshot);
+        orderbookHandler.handler(update(2, { bids: [["2500", "7"]] }));
+        request.resolve!({ bids: [{ price: "2400", size: "1" }], asks: [{ price: "2401", size: "1" }] });
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(orderbook[Eth].bids[0], { price: 2500, size: 7 });
+    });
+
+    it("resubscribes when the snapshot request fails", async () => {
+        const { orderbookHandler, request } = await createHandler();
+        const { socket, resubscribed } = socketStub(true);
+        orderbookHandler.setSocketHandler(socket);
+        orderbookHandler.handler(crossed);
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+
+        request.reject!(new Error("Service unavailable"));
+        await new Promise(resolve => setImmediate(resolve));
+
+        assert.deepEqual(resubscribed, [Eth]);
+    });
+});
+
+describe("OrderbookHandler crossed books", () => {
+    const crossed: InitOrderbook = {
+        ...snapshot,
+        contents: { bids: [{ price: "2502", size: "1" }], asks: [{ price: "2501", size: "1" }] }
+    };
+
+    it("counts a book that stays crossed once", () => {
+        const orderbookHandler = new OrderbookHandler([Eth]);
+        orderbookHandler.setSocketHandler(socketStub(true).socket);
+        orderbookHandler.handler(crossed);
+
+        for (let i = 0; i < 5; i++) {
+            orderbookHandler.cleanupOrderbook(Eth, "0");
+        }
+        assert.equal(orderbookHandler.getCrossedBookCount(Eth), 1);
+
+        orderbookHandler.handler(snapshot);
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+        orderbookHandler.handler(update(2, { bids: [["2501.5", "1"]], asks: [["2501.5", "1"]] }));
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+        assert.equal(orderbookHandler.getCrossedBookCount(Eth), 2);
+    });
+
+    it("retries a resubscription that could not be sent", () => {
+        const orderbookHandler = new OrderbookHandler([Eth]);
+        const { socket, resubscribed } = socketStub(false);
+        orderbookHandler.setSocketHandler(socket);
+        orderbookHandler.handler(crossed);
+
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+        orderbookHandler.cleanupOrderbook(Eth, "0");
+
+        assert.deepEqual(resubscribed, [Eth, Eth]);
+    });
+});
@@ -0,0 +1,110 @@
+// priceLadder.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PriceLadder } from "../src/priceLadder";
+import { Settings } from "../src/constants";
+
+/**
+ * Creates a seeded pseudo-random generator, so failures can be reproduced.
+ * @param seed - The initial state.
+ * @returns A function returning the next integer below a bound.
+ */
+function seededRandom(seed: number): (bound: number) => number {
+    let state = seed;
+    return (bound: number) => {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        return Math.floor(state / 2147483648 * bound);
+    };
+}
+
+describe("PriceLadder keys", () => {
+    it("treats equal decimals as one level", () => {
+        const ladder = new PriceLadder(false);
+        ladder.set("100.50", "1");
+        ladder.set("100.5", "2");
+
+        assert.equal(ladder.length, 1);
+        assert.equal(ladder.get("100.500"), 2);
+
+        ladder.set("100.5000", "0");
+        assert.equal(ladder.length, 0);
+    });
+});
+
+describe("PriceLadder ordering", () => {
+    for (const descending of [true, false]) {
+        it(`keeps ${descending ? "bids" : "asks"} sorted after many inserts and deletes`, () => {
+            const ladder = new PriceLadder(descending);
+            const reference = new Map<number, number>();
+            const random = seededRandom(descending ? 7 : 11);
+
+            for (let i = 0; i < 5000; i++) {
+                const price = (20000 + random(2000)) / 10;
+                const size = random(4); // A quarter of the updates remove the level
+                ladder.set(price.toFixed(2), String(size));
+                if (size > 0) {
+                    reference.set(price, size);
+                } else {
+                    reference.delete(price);
+                }
+            }
+
+            const expected = Array.from(reference, ([price, size]) => ({ price, size }))
+                .sort((a, b) => descending ? b.price - a.price : a.price - b.price);
+            assert.equal(ladder.length, expected.length);
+            assert.deepEqual(ladder.toLevels(), expected);
+            assert.deepEqual(ladder.first(), expected[0]);
+        });
+    }
+});
+
+describe("PriceLadder offsets", () => {
+    it("ignores updates not newer than the applied offset", () => {
+        const ladder = new PriceLadder(true);
+        assert.equal(ladder.set("100", "1", "10"), true);
+
+        assert.equal(ladder.set("100", "2", "9"), false);
+        assert.equal(ladder.set("100", "3", "10"), false);
+        assert.equal(ladder.get("100"), 1);
+
+        assert.equal(ladder.set("100", "4", "11"), true);
+        assert.equal(ladder.get("100"), 4);
+    });
+
+    it("keeps the offset of a removed level", () => {
+        const ladder = new PriceLadder(true);
+        ladder.set("100", "1", "10");
+        ladder.set("100", "0", "12");
+
+        assert.equal(ladder.set("100", "5", "11"), false);
+        assert.equal(ladder.get("100"), undefined);
+
+        // A level inserted without an offset takes the offset of its tombstone
+        assert.equal(ladder.set("100", "5"), true);
+        assert.equal(ladder.set("100", "6", "11"), false);
+        assert.equal(ladder.get("100"), 5);
+    });
+
+    it("evicts the oldest tombstones beyond the limit", () => {
+        const ladder = new PriceLadder(false);
+        for (let i = 0; i <= Settings.MaxTombstones; i++) {
+            ladder.set(String(i + 1), "1", "5");
+            ladder.delete(String(i + 1), "10");
+        }
+
+        assert.equal(ladder.set("1", "1", "6"), true);
+        assert.equal(ladder.set("2", "1", "6"), false);
+    });
+
+    it("forgets every offset on clear", () => {
+        const ladder = new PriceLadder(true);
+        ladder.set("100", "1", "10");
+        ladder.set("200", "1", "10");
+        ladder.delete("200", "11");
+        ladder.clear();
+
+        assert.equal(ladder.length, 0);
+        assert.equal(ladder.set("100", "1", "5"), true);
+        assert.equal(ladder.set("200", "1", "5"), true);
+    });
+});
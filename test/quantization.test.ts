@@ -0,0 +1,98 @@
+// quantization.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OrderSide } from "@dydxprotocol/v4-client-js";
+import { Quantizer } from "../src/quantization";
+import { OrderSizeError } from "../src/errors";
+import { MarketState } from "../src/constants";
+
+/**
+ * Builds the market state of ETH-USD as delivered by the v4_markets snapshot.
+ * @param minOrderBaseQuantums - The minimum order size in base quantums, if the market has one.
+ * @returns The market state.
+ */
+function ethMarket(minOrderBaseQuantums?: number): MarketState {
+    return {
+        clobPairId: "1",
+        ticker: "ETH-USD",
+        status: "ACTIVE",
+        lastPrice: "2500",
+        oraclePrice: "2500",
+        priceChange24H: "0",
+        volume24H: "0",
+        trades24H: "0",
+        nextFundingRate: "0",
+        initialMarginFraction: "0.05",
+        maintenanceMarginFraction: "0.03",
+        basePositionNotional: "1000000",
+        openInterest: "0",
+        atomicResolution: -9,
+        quantumConversionExponent: -9,
+        tickSize: "0.1",
+        stepSize: "0.001",
+        stepBaseQuantums: 1000000,
+        subticksPerTick: 100000,
+        minOrderBaseQuantums
+    };
+}
+
+describe("Quantizer", () => {
+    it("derives the tick and step size from the quantum fields", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        assert.equal(quantizer.getTickSize(), "0.1");
+        assert.equal(quantizer.getStepSize(), "0.001");
+        assert.equal(quantizer.getMinSize(), "0.001");
+        assert.equal(new Quantizer(ethMarket(10000000)).getMinSize(), "0.01");
+    });
+
+    it("rounds passive prices away from the spread", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        assert.equal(quantizer.roundPrice(2500.17, OrderSide.BUY), 2500.1);
+        assert.equal(quantizer.roundPrice(2500.13, OrderSide.SELL), 2500.2);
+    });
+
+    it("rounds aggressive prices through the spread", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        assert.equal(quantizer.roundPrice(2500.13, OrderSide.BUY, true), 2500.2);
+        assert.equal(quantizer.roundPrice(2500.17, OrderSide.SELL, true), 2500.1);
+    });
+
+    it("keeps values that are already on the grid", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        for (const side of [OrderSide.BUY, OrderSide.SELL]) {
+            assert.equal(quantizer.roundPrice(2500.3, side), 2500.3);
+            assert.equal(quantizer.roundPrice(2500.3, side, true), 2500.3);
+        }
+        assert.equal(quantizer.roundSize(0.3), 0.3);
+        assert.equal(quantizer.roundSize(1.007), 1.007);
+    });
+
+    it("rounds sizes down to the step size", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        assert.equal(quantizer.roundSize(0.0239), 0.023);
+    });
+
+    it("rejects sizes below the minimum order size", () => {
+        const quantizer = new Quantizer(ethMarket(10000000));
+
+        assert.throws(() => quantizer.roundSize(0.0099), (error: unknown) => {
+            assert.ok(error instanceof OrderSizeError);
+            assert.equal(error.symbol, "ETH-USD");
+            assert.equal(error.minSize, "0.01");
+            return true;
+        });
+    });
+
+    it("rejects values that cannot be rounded exactly", () => {
+        const quantizer = new Quantizer(ethMarket());
+
+        assert.throws(() => quantizer.roundSize(1e21), RangeError);
+        assert.throws(() => quantizer.roundSize(Infinity), RangeError);
+        assert.throws(() => quantizer.roundPrice(NaN, OrderSide.BUY), RangeError);
+    });
+});
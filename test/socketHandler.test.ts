@@ -0,0 +1,184 @@
+// socketHandler.test.ts
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockIndexerServer } from "../src/mockIndexerServer";
+import { SocketHandler } from "../src/socketHandler";
+import { OrderbookHandler } from "../src/orderbookHandler";
+import { MessageDispatcher } from "../src/messageDispatcher";
+import {
+    AllObjectTypes,
+    BookSide,
+    ChannelTypes,
+    ConnectionState,
+    ErrorSocketMessage,
+    PriceLevel,
+    Subscription,
+    SubscriptionActions,
+    SubscriptionTypes,
+    subOrderbook
+} from "../src/constants";
+
+const Eth = "ETH-USD";
+const Btc = "BTC-USD";
+
+/**
+ * Polls a condition until it holds.
+ * @param condition - The condition to wait for.
+ * @param timeout - The maximum time to wait in milliseconds.
+ */
+async function waitFor(condition: () => boolean, timeout: number = 2000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(`Condition not met within ${timeout}ms`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+describe("SocketHandler with MockIndexerServer", () => {
+    let server: MockIndexerServer;
+    let orderbookHandler: OrderbookHandler;
+    let dispatcher: MessageDispatcher;
+    let socketHandler: SocketHandler | null;
+    let frames: AllObjectTypes[];
+    let errors: ErrorSocketMessage[];
+
+    /**
+     * Creates a socket handler that forwards every frame to the dispatcher and reconnects quickly.
+     * @param subscriptions - The subscriptions of the socket handler.
+     * @returns The socket handler, not yet running.
+     */
+    const createSocketHandler = (subscriptions: Subscription[]): SocketHandler => {
+        socketHandler = new SocketHandler(subscriptions, obj => {
+            frames.push(obj);
+            dispatcher.dispatch(obj);
+        }, {
+            network: server.getNetworkProfile(),
+            reconnect: { baseDelay: 10, maxDelay: 50 }
+        });
+        return socketHandler;
+    };
+
+    /**
+     * Returns the full depth of one side of a book.
+     * @param symbol - The market symbol.
+     * @param bookSide - The side of the book.
+     * @returns The price levels, best first.
+     */
+    const levels = (symbol: string, bookSide: BookSide): PriceLevel[] => {
+        return Array.from(orderbookHandler.getLevels(symbol, bookSide));
+    };
+
+    beforeEach(async () => {
+        server = new MockIndexerServer();
+        await server.start();
+        server.setOrderbookSnapshot(Eth, { bids: [{ price: "2500", size: "1" }], asks: [{ price: "2501", size: "2" }] });
+        server.setOrderbookSnapshot(Btc, { bids: [{ price: "60000", size: "1" }], asks: [{ price: "60001", size: "1" }] });
+
+        orderbookHandler = new OrderbookHandler([Eth, Btc]);
+        dispatcher = new MessageDispatcher();
+        dispatcher.register(ChannelTypes.Orderbook, obj => orderbookHandler.handler(obj));
+        frames = [];
+        errors = [];
+        dispatcher.onError(obj => errors.push(obj));
+        socketHandler = null;
+    });
+
+    afterEach(async () => {
+        socketHandler?.stop();
+        await server.stop();
+    });
+
+    it("applies the snapshot and channel data", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth)]);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+
+        server.publishOrderbook(Eth, { bids: [["2499", "3"]] });
+        await waitFor(() => levels(Eth, BookSide.BIDS).length === 2);
+
+        assert.deepEqual(levels(Eth, BookSide.BIDS), [{ price: 2500, size: 1 }, { price: 2499, size: 3 }]);
+        assert.deepEqual(levels(Eth, BookSide.ASKS), [{ price: 2501, size: 2 }]);
+    });
+
+    it("reconnects and resubscribes after a disconnect", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth)]);
+        let disconnects = 0;
+        socket.onDisconnect(() => disconnects++);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+
+        server.setOrderbookSnapshot(Eth, { bids: [{ price: "2400", size: "5" }], asks: [{ price: "2401", size: "6" }] });
+        server.disconnectAll();
+
+        await waitFor(() => levels(Eth, BookSide.BIDS)[0]?.price === 2400);
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+        assert.equal(disconnects, 1);
+        assert.equal(server.getConnectionCount(), 1);
+        assert.deepEqual(levels(Eth, BookSide.ASKS), [{ price: 2401, size: 6 }]);
+    });
+
+    it("resyncs every subscription after a message id gap", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth), subOrderbook(Btc)]);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+        const received = server.getReceivedMessages().length;
+
+        server.skipMessageIds(2);
+        server.publishOrderbook(Eth, { bids: [["2499", "3"]] });
+
+        // Both channels are resubscribed, not only the one whose frame revealed the gap
+        await waitFor(() => frames.filter(frame => frame.type === SubscriptionTypes.Subscribed).length === 4);
+        const resync = server.getReceivedMessages().slice(received) as Subscription[];
+        for (const symbol of [Eth, Btc]) {
+            assert.ok(resync.some(message => message.type === SubscriptionActions.Unsubscribe && message.id === symbol));
+            assert.ok(resync.some(message => message.type === SubscriptionActions.Subscribe && message.id === symbol));
+        }
+
+        // The update that revealed the gap is dropped, the fresh snapshot is applied
+        assert.ok(!frames.some(frame => frame.type === SubscriptionTypes.ChannelData));
+        assert.deepEqual(levels(Eth, BookSide.BIDS), [{ price: 2500, size: 1 }]);
+    });
+
+    it("drops malformed frames and keeps processing", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth)]);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+        const forwarded = frames.length;
+
+        server.sendRaw("not json");
+        server.sendRaw(JSON.stringify({ channel: ChannelTypes.Orderbook, id: Eth }));
+        server.publishOrderbook(Eth, { asks: [["2502", "4"]] });
+
+        await waitFor(() => levels(Eth, BookSide.ASKS).length === 2);
+        assert.equal(frames.length, forwarded + 1);
+        assert.equal(socket.getState(), ConnectionState.Subscribed);
+        assert.deepEqual(levels(Eth, BookSide.ASKS), [{ price: 2501, size: 2 }, { price: 2502, size: 4 }]);
+    });
+
+    it("passes error frames to the error callback", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth)]);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+
+        server.sendError("Internal error, could not fetch data for subscription");
+        await waitFor(() => errors.length === 1);
+
+        assert.equal(errors[0].message, "Internal error, could not fetch data for subscription");
+        assert.equal(socket.getState(), ConnectionState.Subscribed);
+        assert.deepEqual(levels(Eth, BookSide.BIDS), [{ price: 2500, size: 1 }]);
+    });
+
+    it("applies batched updates in order", async () => {
+        const socket = createSocketHandler([subOrderbook(Eth, true)]);
+        await socket.run();
+        await waitFor(() => socket.getState() === ConnectionState.Subscribed);
+
+        server.publishOrderbook(Eth, { bids: [["2499", "3"]] });
+        server.publishOrderbook(Eth, { bids: [["2499", "0"], ["2498", "4"]] });
+        await waitFor(() => frames.filter(frame => frame.type === SubscriptionTypes.ChannelBatchData).length === 2);
+
+        assert.deepEqual(levels(Eth, BookSide.BIDS), [{ price: 2500, size: 1 }, { price: 2498, size: 4 }]);
+    });
+});